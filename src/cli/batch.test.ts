@@ -0,0 +1,140 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { SCENARIOS } from "../engine";
+import { parseCsv } from "../export/csv";
+import { main, parseArgs, toCalcInput } from "./batch";
+
+describe("parseArgs", () => {
+  it("takes the format from the output, then the input extension", () => {
+    expect(parseArgs(["clients.csv"])).toEqual({ input: "clients.csv", output: undefined, format: "csv" });
+    expect(parseArgs(["clients.json"])!.format).toBe("json");
+    expect(parseArgs(["clients.csv", "-o", "out.json"])).toEqual({
+      input: "clients.csv",
+      output: "out.json",
+      format: "json",
+    });
+    expect(parseArgs(["clients.json", "--out", "out.csv"])!.format).toBe("csv");
+  });
+
+  it("lets --format override the extensions", () => {
+    expect(parseArgs(["clients.csv", "-o", "out.txt", "--format", "json"])!.format).toBe("json");
+  });
+
+  it("returns null for help or a missing input", () => {
+    expect(parseArgs([])).toBeNull();
+    expect(parseArgs(["-h"])).toBeNull();
+    expect(parseArgs(["clients.csv", "--help"])).toBeNull();
+  });
+
+  it("rejects an unknown format and a second input", () => {
+    expect(() => parseArgs(["clients.csv", "--format", "xml"])).toThrow(/unknown format/);
+    expect(() => parseArgs(["a.csv", "b.csv"])).toThrow(/unexpected argument "b.csv"/);
+  });
+});
+
+describe("toCalcInput", () => {
+  it("reads CSV strings: money with $ and commas, booleans, defaults", () => {
+    const input = toCalcInput({
+      businessIncome: "$150,000",
+      personalCashNeeded: "90000",
+      province: "on",
+      rrspContributeAllRoom: "yes",
+      ippAge: "",
+    });
+    expect(input.businessIncome).toBe(150_000);
+    expect(input.province).toBe("ON");
+    expect(input.taxYear).toBe(2025);
+    expect(input.rrspContributeAllRoom).toBe(true);
+    expect(input.ipp).toBeUndefined();
+    expect(input.investmentIncome).toEqual({ interest: 0, foreignIncome: 0, capitalGains: 0, canadianDividends: 0 });
+  });
+
+  it.each([
+    [{ personalCashNeeded: 1 }, /businessIncome is required/],
+    [{ businessIncome: "lots", personalCashNeeded: 1 }, /businessIncome is not a number/],
+    [{ businessIncome: 1, personalCashNeeded: 1, province: "QC" }, /unsupported province "QC"/],
+    [{ businessIncome: 1, personalCashNeeded: 1, disability: "maybe" }, /disability is not true\/false/],
+    [{ businessIncome: 1, personalCashNeeded: 1, eiStatus: "NONE" }, /unknown eiStatus/],
+  ])("rejects %o", (raw, error) => {
+    expect(() => toCalcInput(raw)).toThrow(error);
+  });
+});
+
+describe("main", () => {
+  let dir: string;
+  let stderr: string[];
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "batch-"));
+    stderr = [];
+    vi.spyOn(console, "error").mockImplementation((...args) => void stderr.push(args.join(" ")));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const file = (name: string, text: string) => {
+    const path = join(dir, name);
+    writeFileSync(path, text);
+    return path;
+  };
+
+  it("writes one CSV row per client × scenario, with errors on their own row", () => {
+    const input = file(
+      "clients.csv",
+      'id,businessIncome,personalCashNeeded,province\n"Smith, J",150000,90000,BC\nbad,,90000,AB\n'
+    );
+    const output = join(dir, "out.csv");
+
+    expect(main([input, "-o", output])).toBe(1);
+
+    const rows = parseCsv(readFileSync(output, "utf8"));
+    const smith = rows.filter((r) => r.id === "Smith, J");
+    expect(smith.map((r) => r.scenario)).toEqual(SCENARIOS);
+    expect(smith.filter((r) => r.recommended === "true")).toHaveLength(1);
+    expect(smith[0].businessIncome).toBe("150000");
+    expect(rows.find((r) => r.id === "bad")?.error).toBe("businessIncome is required");
+    expect(stderr).toContain("client bad: businessIncome is required");
+    expect(stderr.at(-1)).toBe("1/2 clients calculated");
+  });
+
+  it("writes JSON results per client", () => {
+    const input = file("clients.json", JSON.stringify([{ id: "a", businessIncome: 200_000, personalCashNeeded: 100_000 }]));
+    const output = join(dir, "out.json");
+
+    expect(main([input, "-o", output])).toBe(0);
+    const [client] = JSON.parse(readFileSync(output, "utf8"));
+    expect(client.id).toBe("a");
+    expect(Object.keys(client.results)).toEqual(SCENARIOS);
+  });
+
+  it("reports JSON elements that aren't objects by position", () => {
+    const input = file("clients.json", JSON.stringify([null, 5, { businessIncome: 200_000, personalCashNeeded: 100_000 }]));
+
+    expect(main([input, "-o", join(dir, "out.json")])).toBe(1);
+    expect(stderr).toContain("client 1: not an object");
+    expect(stderr).toContain("client 2: not an object");
+    expect(stderr.at(-1)).toBe("1/3 clients calculated");
+  });
+
+  it.each([
+    ["a missing file", () => join(dir, "missing.csv"), /missing\.csv: ENOENT/],
+    ["malformed JSON", () => file("broken.json", '[{"businessIncome": 1'), /broken\.json: /],
+    ["JSON that isn't an array", () => file("object.json", "{}"), /object\.json: expected a JSON array/],
+  ])("prints one line and returns 1 for %s", (_, path, error) => {
+    expect(main([path()])).toBe(1);
+    expect(stderr).toHaveLength(1);
+    expect(stderr[0]).toMatch(error);
+    expect(stderr[0]).not.toContain("\n");
+  });
+
+  it("returns 2 with the usage for bad arguments", () => {
+    expect(main([])).toBe(2);
+    expect(main(["a.csv", "--format", "xml"])).toBe(2);
+    expect(stderr.every((line) => line.includes("Usage:"))).toBe(true);
+  });
+});
@@ -0,0 +1,245 @@
+// src/cli/batch.ts
+import { readFileSync, writeFileSync } from "node:fs";
+import { extname } from "node:path";
+import { pathToFileURL } from "node:url";
+import {
+  DEFAULT_TAX_YEAR,
+  PROVINCES,
+  EI_STATUSES,
+  calculateAllScenarios,
+  recommendScenario,
+  type CalcInput,
+  type EiStatus,
+  type MixObjective,
+  type ProvinceCode,
+  type Recommendation,
+  type Scenario,
+  type ScenarioOutput,
+} from "../engine";
+import { parseCsv, toCsv } from "../export/csv";
+import { scenarioRows } from "../export/rows";
+
+/**
+ * Headless batch calculator
+ *
+ *   npm run batch -- clients.csv [-o results.csv] [--format csv|json]
+ *
+ * Input: CSV with a header row, or a JSON array of objects, one client per row:
+ *   id, businessIncome, personalCashNeeded, otherExpenses, province, taxYear, inflationRate, mixObjective,
+ *   interest, foreignIncome, capitalGains, canadianDividends, openingRdtohEligible, openingRdtohNonEligible,
+ *   openingCda, rrspContribution, rrspContributeAllRoom (true/false), rrspCarryForwardRoom,
+ *   ippAge, ippYearsOfService (an IPP is funded in the salary scenario when ippAge is set),
+ *   age, oasPension (taxed on the return, with the clawback), amtCarryForward,
+ *   pensionIncome, disability (true/false), tuition (optional credits),
+ *   eiStatus (ARM_LENGTH / RELATED / OWNER_OVER_40), eiSelfEmployedOptIn (true/false),
+ *   worksafeRate (BC salary scenario, $ per $100 of payroll)
+ *   (only businessIncome and personalCashNeeded are required; defaults BC / 2025;
+ *    inflationRate is a fraction, e.g. 0.02; corporate investment income defaults to 0)
+ * Output: CSV → one row per client × scenario with the inputs, tax-year metadata and every
+ *         ScenarioOutput field (same layout as the Dashboard's CSV export);
+ *         JSON → one object per client with all scenario results.
+ *   Both flag the recommended structure. Without -o, results go to stdout.
+ * Exit code: 0 when every client calculated, 1 when any failed or the input file couldn't be
+ *   read or parsed (one line on stderr), 2 for bad arguments.
+ */
+
+type Format = "csv" | "json";
+
+type ClientResult = {
+  id: string;
+  input?: CalcInput;
+  results?: Record<Scenario, ScenarioOutput>;
+  recommended?: Recommendation | null;
+  error?: string;
+};
+
+const USAGE = "Usage: npm run batch -- <clients.csv|clients.json> [-o <out.csv|out.json>] [--format csv|json]";
+
+/* ---------- input ---------- */
+
+function num(raw: unknown, field: string, fallback?: number): number {
+  if (raw === undefined || raw === null || raw === "") {
+    if (fallback !== undefined) return fallback;
+    throw new Error(`${field} is required`);
+  }
+  const n = typeof raw === "number" ? raw : Number(String(raw).replace(/[$,\s]/g, ""));
+  if (!Number.isFinite(n)) throw new Error(`${field} is not a number: "${raw}"`);
+  return n;
+}
+
+function bool(raw: unknown, field: string): boolean {
+  if (raw === undefined || raw === null || raw === "") return false;
+  if (typeof raw === "boolean") return raw;
+  const s = String(raw).trim().toLowerCase();
+  if (["true", "yes", "y", "1"].includes(s)) return true;
+  if (["false", "no", "n", "0"].includes(s)) return false;
+  throw new Error(`${field} is not true/false: "${raw}"`);
+}
+
+export function toCalcInput(raw: Record<string, unknown>): CalcInput {
+  const province = String(raw.province || "BC").toUpperCase() as ProvinceCode;
+  if (!PROVINCES.includes(province)) {
+    throw new Error(`unsupported province "${raw.province}" (use ${PROVINCES.join(", ")})`);
+  }
+
+  const mixObjective = (raw.mixObjective || undefined) as MixObjective | undefined;
+  if (mixObjective && mixObjective !== "MIN_TAX_AND_CPP" && mixObjective !== "MAX_TOTAL_CASH") {
+    throw new Error(`unknown mixObjective "${mixObjective}"`);
+  }
+
+  const eiStatus = (raw.eiStatus || undefined) as EiStatus | undefined;
+  if (eiStatus && !EI_STATUSES.includes(eiStatus)) {
+    throw new Error(`unknown eiStatus "${eiStatus}" (use ${EI_STATUSES.join(", ")})`);
+  }
+
+  return {
+    businessIncome: num(raw.businessIncome, "businessIncome"),
+    personalCashNeeded: num(raw.personalCashNeeded, "personalCashNeeded"),
+    otherExpenses: num(raw.otherExpenses, "otherExpenses", 0),
+    province,
+    taxYear: num(raw.taxYear, "taxYear", DEFAULT_TAX_YEAR),
+    inflationRate: raw.inflationRate === undefined || raw.inflationRate === ""
+      ? undefined
+      : num(raw.inflationRate, "inflationRate"),
+    mixObjective,
+    investmentIncome: {
+      interest: num(raw.interest, "interest", 0),
+      foreignIncome: num(raw.foreignIncome, "foreignIncome", 0),
+      capitalGains: num(raw.capitalGains, "capitalGains", 0),
+      canadianDividends: num(raw.canadianDividends, "canadianDividends", 0),
+    },
+    openingRdtoh: {
+      eligible: num(raw.openingRdtohEligible, "openingRdtohEligible", 0),
+      nonEligible: num(raw.openingRdtohNonEligible, "openingRdtohNonEligible", 0),
+    },
+    openingCda: num(raw.openingCda, "openingCda", 0),
+    rrspContribution: num(raw.rrspContribution, "rrspContribution", 0),
+    rrspContributeAllRoom: bool(raw.rrspContributeAllRoom, "rrspContributeAllRoom"),
+    rrspCarryForwardRoom: num(raw.rrspCarryForwardRoom, "rrspCarryForwardRoom", 0),
+    ipp: raw.ippAge === undefined || raw.ippAge === ""
+      ? undefined
+      : {
+          age: num(raw.ippAge, "ippAge"),
+          yearsOfService: num(raw.ippYearsOfService, "ippYearsOfService", 0),
+        },
+    age: raw.age === undefined || raw.age === "" ? undefined : num(raw.age, "age"),
+    oasPension: raw.oasPension === undefined || raw.oasPension === ""
+      ? undefined
+      : num(raw.oasPension, "oasPension"),
+    amtCarryForward: num(raw.amtCarryForward, "amtCarryForward", 0),
+    pensionIncome: num(raw.pensionIncome, "pensionIncome", 0),
+    disability: bool(raw.disability, "disability"),
+    tuition: num(raw.tuition, "tuition", 0),
+    eiStatus,
+    eiSelfEmployedOptIn: bool(raw.eiSelfEmployedOptIn, "eiSelfEmployedOptIn"),
+    worksafeRate: num(raw.worksafeRate, "worksafeRate", 0),
+  };
+}
+
+function readClients(path: string): unknown[] {
+  const text = readFileSync(path, "utf8");
+  if (extname(path).toLowerCase() === ".json") {
+    const data = JSON.parse(text);
+    if (!Array.isArray(data)) throw new Error(`${path}: expected a JSON array of clients`);
+    return data;
+  }
+  return parseCsv(text);
+}
+
+/* ---------- run ---------- */
+
+function runClient(raw: unknown, index: number): ClientResult {
+  // A JSON array may hold anything; only objects are clients
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return { id: String(index + 1), error: "not an object" };
+  }
+  const client = raw as Record<string, unknown>;
+  const id = String(client.id ?? client.name ?? index + 1);
+  try {
+    const input = toCalcInput(client);
+    const results = calculateAllScenarios(input);
+    return { id, input, results, recommended: recommendScenario(results) };
+  } catch (e) {
+    return { id, error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+/* ---------- output ---------- */
+
+function toCsvRows(clients: ClientResult[]) {
+  const rows: Array<Record<string, unknown>> = [];
+  for (const c of clients) {
+    if (!c.results || !c.input) {
+      rows.push({ id: c.id, error: c.error });
+      continue;
+    }
+    for (const row of scenarioRows(c.input, c.results, c.recommended)) rows.push({ id: c.id, ...row });
+  }
+  return rows;
+}
+
+export function parseArgs(argv: string[]) {
+  let input: string | undefined;
+  let output: string | undefined;
+  let format: Format | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === "-o" || a === "--out") output = argv[++i];
+    else if (a === "--format") format = argv[++i] as Format;
+    else if (a === "-h" || a === "--help") return null;
+    else if (!input) input = a;
+    else throw new Error(`unexpected argument "${a}"`);
+  }
+  if (!input) return null;
+  if (format && format !== "csv" && format !== "json") throw new Error(`unknown format "${format}"`);
+
+  const fromExt = (p?: string): Format | undefined =>
+    p ? (extname(p).toLowerCase() === ".json" ? "json" : "csv") : undefined;
+
+  return { input, output, format: format ?? fromExt(output) ?? fromExt(input)! };
+}
+
+export function main(argv: string[]): number {
+  let args: ReturnType<typeof parseArgs>;
+  try {
+    args = parseArgs(argv);
+  } catch (e) {
+    console.error(`${(e as Error).message}\n${USAGE}`);
+    return 2;
+  }
+  if (!args) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  let rawClients: unknown[];
+  try {
+    rawClients = readClients(args.input);
+  } catch (e) {
+    // Missing/unreadable file or malformed JSON: one line, no stack trace
+    const message = (e instanceof Error ? e.message : String(e)).split("\n")[0];
+    console.error(message.startsWith(args.input) ? message : `${args.input}: ${message}`);
+    return 1;
+  }
+
+  const clients = rawClients.map(runClient);
+
+  const out = args.format === "json"
+    ? JSON.stringify(clients, null, 2) + "\n"
+    : toCsv(toCsvRows(clients));
+
+  if (args.output) writeFileSync(args.output, out);
+  else process.stdout.write(out);
+
+  const failed = clients.filter((c) => c.error);
+  for (const c of failed) console.error(`client ${c.id}: ${c.error}`);
+  console.error(`${clients.length - failed.length}/${clients.length} clients calculated`);
+
+  return failed.length > 0 ? 1 : 0;
+}
+
+// Run only as the script itself (npm run batch), not when imported by the tests
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  process.exitCode = main(process.argv.slice(2));
+}
@@ -1,16 +1,24 @@
 import React, { useMemo, useState } from "react";
 import { calculateUnincorporated } from "@/engine/calcUnincorporated";
+import type { ProvinceCode } from "@/engine/jurisdictions";
+import { DEFAULT_TAX_YEAR } from "@/engine/taxYears";
 
 const fmt = (n: number) =>
   Number.isFinite(n) ? n.toLocaleString(undefined, { style: "currency", currency: "CAD", maximumFractionDigits: 2 }) : "—";
 const pct = (n: number) => (Number.isFinite(n) ? (n * 100).toFixed(2) + "%" : "—");
 
-export default function NotIncorporatedScenario() {
+export default function NotIncorporatedScenario({
+  province = "BC",
+  taxYear = DEFAULT_TAX_YEAR,
+}: {
+  province?: ProvinceCode;
+  taxYear?: number;
+} = {}) {
   const [businessIncome, setBusinessIncome] = useState(100_000); // matches how your calc uses input.businessIncome
 
   const res = useMemo(
-    () => calculateUnincorporated({ businessIncome }), // your function expects CalcInput with businessIncome
-    [businessIncome]
+    () => calculateUnincorporated({ businessIncome, personalCashNeeded: 0, province, taxYear }),
+    [businessIncome, province, taxYear]
   );
 
   return (
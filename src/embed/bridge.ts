@@ -0,0 +1,123 @@
+// src/embed/bridge.ts
+import type { CalcInput } from "@/engine";
+import { isAllowedOrigin } from "./config";
+import {
+  EMBED_PROTOCOL_VERSION,
+  envelope,
+  readHostMessage,
+  type CalculationResults,
+  type EmbedMessage,
+  type HostMessage,
+  type RequestId,
+} from "./protocol";
+
+/**
+ * The calculator's side of the embed protocol (messages in protocol.ts)
+ * - One listener for the page's lifetime; the mounted Dashboard plugs in its handlers,
+ *   so the verified host and a pending requestId survive the Dashboard remounting.
+ * - Outside an iframe every call here does nothing.
+ */
+
+export type EmbedHandlers = {
+  prefill: (input: Partial<CalcInput>) => void;
+  calculate: (input: Partial<CalcInput>) => void;
+};
+
+let started = false;
+let hostOrigin: string | null = null;
+let handlers: EmbedHandlers | null = null;
+let pendingRequestId: RequestId | undefined;
+let lastHeight = 0;
+
+export const isEmbedded = () => typeof window !== "undefined" && window.parent !== window;
+
+function post(message: EmbedMessage) {
+  if (!isEmbedded() || !hostOrigin) return;
+  window.parent.postMessage(envelope(message), hostOrigin);
+}
+
+/** Host origin before any message arrives: Chrome/Safari expose it, else the referrer */
+function initialHostOrigin() {
+  const ancestor = window.location.ancestorOrigins?.[0];
+  if (ancestor) return ancestor;
+  try {
+    return document.referrer ? new URL(document.referrer).origin : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Height of the app's content, not the iframe viewport */
+function contentHeight() {
+  const root = document.getElementById("root") ?? document.body;
+  return Math.ceil(root.getBoundingClientRect().height);
+}
+
+function postHeight(force = false) {
+  const height = contentHeight();
+  if (!force && height === lastHeight) return;
+  lastHeight = height;
+  post({ type: "height", height });
+}
+
+function handle(message: HostMessage) {
+  switch (message.type) {
+    case "hello":
+      post({ type: "ready", version: EMBED_PROTOCOL_VERSION });
+      postHeight(true);
+      return;
+    case "prefill":
+      handlers?.prefill(message.input);
+      return;
+    case "calculate":
+      pendingRequestId = message.requestId;
+      try {
+        handlers?.calculate(message.input);
+      } catch (e) {
+        // No results will follow: answer the request, and don't tag the next calculation with it
+        pendingRequestId = undefined;
+        const { requestId } = message;
+        const error = e instanceof Error ? e.message : String(e);
+        post({ type: "error", message: error, ...(requestId !== undefined && { requestId }) });
+      }
+      return;
+  }
+}
+
+function onMessage(event: MessageEvent) {
+  if (event.source !== window.parent || !isAllowedOrigin(event.origin)) return;
+  const message = readHostMessage(event.data);
+  if (message == null) return;
+
+  hostOrigin = event.origin;
+  if (typeof message === "string") post({ type: "error", message });
+  else handle(message);
+}
+
+/** Listen for the host and report height changes (once; no-op outside an iframe) */
+export function startEmbedBridge() {
+  if (started || !isEmbedded()) return;
+  started = true;
+
+  const origin = initialHostOrigin();
+  if (origin && isAllowedOrigin(origin)) hostOrigin = origin;
+
+  window.addEventListener("message", onMessage);
+  new ResizeObserver(() => postHeight()).observe(document.getElementById("root") ?? document.body);
+  post({ type: "ready", version: EMBED_PROTOCOL_VERSION });
+}
+
+/** The mounted Dashboard's handlers (returns the unregister function) */
+export function setEmbedHandlers(next: EmbedHandlers) {
+  handlers = next;
+  return () => {
+    if (handlers === next) handlers = null;
+  };
+}
+
+/** Every calculation goes to the host, tagged with the request that asked for it */
+export function postResults(calculation: CalculationResults) {
+  const requestId = pendingRequestId;
+  pendingRequestId = undefined;
+  post({ type: "results", ...(requestId !== undefined && { requestId }), ...calculation });
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_ALLOWED_ORIGINS, allowedOrigins, isAllowedOrigin } from "./config";
+
+describe("allowedOrigins", () => {
+  it("reads a comma-separated list, trimming spaces and trailing slashes", () => {
+    expect(allowedOrigins(" https://a.example.com/ ,https://*.b.example.com,, ")).toEqual([
+      "https://a.example.com",
+      "https://*.b.example.com",
+    ]);
+  });
+
+  it("falls back to the defaults when unset or empty", () => {
+    expect(allowedOrigins(undefined)).toEqual(DEFAULT_ALLOWED_ORIGINS);
+    expect(allowedOrigins(" , ")).toEqual(DEFAULT_ALLOWED_ORIGINS);
+  });
+});
+
+describe("isAllowedOrigin", () => {
+  const squarespace = ["https://*.squarespace.com"];
+
+  it.each(["https://acme.squarespace.com", "https://www.acme.squarespace.com"])("lets %s in", (origin) => {
+    expect(isAllowedOrigin(origin, squarespace)).toBe(true);
+  });
+
+  it.each([
+    "https://squarespace.com",                // the bare domain (like CSP)
+    "http://acme.squarespace.com",            // wrong scheme
+    "https://evilsquarespace.com",            // not a subdomain
+    "https://acme.squarespace.com.evil.com",  // suffix elsewhere
+    "https://acme.squarespace.com:8443",      // another port is another origin
+    "https://.squarespace.com",
+    "null",                                   // sandboxed / file: pages
+  ])("keeps %s out", (origin) => {
+    expect(isAllowedOrigin(origin, squarespace)).toBe(false);
+  });
+
+  it("matches exact origins exactly, and * matches anything", () => {
+    expect(isAllowedOrigin("https://client.example.com", ["https://client.example.com"])).toBe(true);
+    expect(isAllowedOrigin("https://client.example.com.evil.com", ["https://client.example.com"])).toBe(false);
+    expect(isAllowedOrigin("http://localhost:5173", ["*"])).toBe(true);
+  });
+});
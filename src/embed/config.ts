@@ -0,0 +1,33 @@
+// src/embed/config.ts
+
+/**
+ * Which host pages may drive the calculator through the embed protocol (see protocol.ts)
+ * - Set VITE_EMBED_ALLOWED_ORIGINS at build time: comma-separated origins, where
+ *   "https://*.example.com" matches any subdomain and "*" matches everything.
+ * - Without it, Squarespace sites are allowed.
+ * - Both lists are per deployment: frame-ancestors in public/_headers decides who may
+ *   frame the page at all, this decides who may talk to it. Replace the
+ *   https://*.yourdomain.com placeholder there with the sites that embed the calculator,
+ *   and list the same origins here.
+ */
+
+export const DEFAULT_ALLOWED_ORIGINS = ["https://*.squarespace.com"];
+
+export function allowedOrigins(raw: string | undefined = import.meta.env?.VITE_EMBED_ALLOWED_ORIGINS) {
+  const list = (raw ?? "")
+    .split(",")
+    .map((o) => o.trim().replace(/\/+$/, ""))
+    .filter(Boolean);
+  return list.length > 0 ? list : DEFAULT_ALLOWED_ORIGINS;
+}
+
+/** Exact match, or "scheme://*.domain" for any subdomain (not the bare domain, like CSP) */
+export function isAllowedOrigin(origin: string, patterns: string[] = allowedOrigins()) {
+  return patterns.some((p) => {
+    if (p === "*") return true;
+    const wildcard = p.match(/^(https?:\/\/)\*\.(.+)$/);
+    if (!wildcard) return p === origin;
+    const [, scheme, domain] = wildcard;
+    return origin.startsWith(scheme) && origin.endsWith(`.${domain}`) && origin.length > scheme.length + domain.length + 1;
+  });
+}
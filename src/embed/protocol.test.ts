@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { EMBED_PROTOCOL, EMBED_PROTOCOL_VERSION, envelope, readHostMessage } from "./protocol";
+
+const wire = (message: Record<string, unknown>) => ({
+  protocol: EMBED_PROTOCOL,
+  version: EMBED_PROTOCOL_VERSION,
+  ...message,
+});
+
+describe("readHostMessage", () => {
+  it.each([
+    ["a string", "hello"],
+    ["null", null],
+    ["another protocol", { protocol: "other-widget", version: 1, type: "hello" }],
+    ["no protocol field", { type: "calculate", input: { businessIncome: 1 } }],
+  ])("ignores %s", (_, data) => {
+    expect(readHostMessage(data)).toBeNull();
+  });
+
+  it("answers another protocol version with an error", () => {
+    const r = readHostMessage({ ...wire({ type: "hello" }), version: EMBED_PROTOCOL_VERSION + 1 });
+    expect(typeof r).toBe("string");
+    expect(r).toContain(`version ${EMBED_PROTOCOL_VERSION + 1}`);
+  });
+
+  it("answers an unknown type with an error", () => {
+    expect(readHostMessage(wire({ type: "reset" }))).toBe('Unknown message type "reset".');
+    expect(readHostMessage(wire({}))).toMatch(/Unknown message type/);
+  });
+
+  it("reads hello, prefill and calculate", () => {
+    expect(readHostMessage(wire({ type: "hello" }))).toEqual({ type: "hello" });
+    expect(readHostMessage(wire({ type: "prefill", input: { businessIncome: 150_000, province: "AB" } }))).toEqual({
+      type: "prefill",
+      input: { businessIncome: 150_000, province: "AB" },
+    });
+    expect(readHostMessage(wire({ type: "calculate", requestId: 7 }))).toEqual({
+      type: "calculate",
+      input: {},
+      requestId: 7,
+    });
+  });
+
+  it("drops invalid inputs and request ids", () => {
+    expect(
+      readHostMessage(
+        wire({ type: "calculate", input: { businessIncome: "lots", personalCashNeeded: 80_000 }, requestId: { id: 1 } })
+      )
+    ).toEqual({ type: "calculate", input: { personalCashNeeded: 80_000 } });
+    expect(readHostMessage(wire({ type: "prefill", input: "businessIncome=1" }))).toEqual({ type: "prefill", input: {} });
+  });
+});
+
+describe("envelope", () => {
+  it("wraps a message in the protocol envelope", () => {
+    const sent = envelope({ type: "height", height: 640 });
+    expect(sent).toEqual({ protocol: EMBED_PROTOCOL, version: EMBED_PROTOCOL_VERSION, type: "height", height: 640 });
+  });
+});
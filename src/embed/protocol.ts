@@ -0,0 +1,94 @@
+// src/embed/protocol.ts
+import type { CalcInput, Scenario, ScenarioOutput } from "@/engine";
+import { readCalcInput } from "@/pages/dashboard/shareLink";
+
+/**
+ * Embed protocol — window.postMessage between a host page and the calculator in an iframe
+ * - Every message is an object `{ protocol: "incorp-calc", version: 1, type, ... }`.
+ *   Messages without the protocol field are someone else's and are ignored; a different
+ *   version gets an "error" reply. Bump the version when a message changes meaning.
+ * - The calculator only listens to origins on the allowlist (config.ts) and only ever
+ *   posts to the host origin it has verified (from the referrer, or the first accepted
+ *   message), never to "*".
+ *
+ * Host → calculator
+ * - hello: handshake; answered with "ready" and the current height.
+ * - prefill { input }: replace these inputs (any calculator input, e.g. businessIncome,
+ *   personalCashNeeded, province); the rest keep their values. Doesn't calculate.
+ * - calculate { input?, requestId? }: optional prefill, then run every scenario.
+ *
+ * Calculator → host
+ * - ready { version }: loaded and listening (also sent on start when the host is known).
+ * - results { requestId?, input, results, recommended }: after every calculation, from the
+ *   host or the user; `results` holds a ScenarioOutput per scenario (Scenario keys).
+ * - height { height }: content height in CSS pixels whenever it changes, for resizing
+ *   the iframe.
+ * - error { message, requestId? }: a message from an allowed origin that couldn't be used,
+ *   or a calculation that failed (tagged with its request).
+ *
+ * Example host page:
+ *   const calc = document.querySelector("iframe").contentWindow;
+ *   const send = (m) => calc.postMessage({ protocol: "incorp-calc", version: 1, ...m }, CALC_ORIGIN);
+ *   window.addEventListener("message", (e) => {
+ *     if (e.origin !== CALC_ORIGIN || e.data?.protocol !== "incorp-calc") return;
+ *     if (e.data.type === "height") iframe.style.height = `${e.data.height}px`;
+ *   });
+ *   send({ type: "calculate", input: { businessIncome: 180000, personalCashNeeded: 90000 } });
+ */
+
+export const EMBED_PROTOCOL = "incorp-calc";
+export const EMBED_PROTOCOL_VERSION = 1;
+
+export type RequestId = string | number;
+
+/** One calculation, as the host (and the widget's DOM events) receive it */
+export type CalculationResults = {
+  input: CalcInput;
+  results: Record<Scenario, ScenarioOutput>;
+  recommended: Scenario | null;
+};
+
+export type HostMessage =
+  | { type: "hello" }
+  | { type: "prefill"; input: Partial<CalcInput> }
+  | { type: "calculate"; input: Partial<CalcInput>; requestId?: RequestId };
+
+export type EmbedMessage =
+  | { type: "ready"; version: number }
+  | ({ type: "results"; requestId?: RequestId } & CalculationResults)
+  | { type: "height"; height: number }
+  | { type: "error"; message: string; requestId?: RequestId };
+
+/** On the wire: the message inside the protocol envelope */
+export function envelope(message: EmbedMessage) {
+  return { protocol: EMBED_PROTOCOL, version: EMBED_PROTOCOL_VERSION, ...message };
+}
+
+const requestIdOf = (v: unknown): RequestId | undefined =>
+  typeof v === "string" || (typeof v === "number" && Number.isFinite(v)) ? v : undefined;
+
+/**
+ * A host message from untrusted data: null when it isn't for us (ignore it),
+ * an error string when it is but can't be used
+ */
+export function readHostMessage(data: unknown): HostMessage | string | null {
+  if (typeof data !== "object" || data === null) return null;
+  const o = data as Record<string, unknown>;
+  if (o.protocol !== EMBED_PROTOCOL) return null;
+  if (o.version !== EMBED_PROTOCOL_VERSION) {
+    return `Unsupported protocol version ${String(o.version)} (this calculator speaks ${EMBED_PROTOCOL_VERSION}).`;
+  }
+
+  switch (o.type) {
+    case "hello":
+      return { type: "hello" };
+    case "prefill":
+      return { type: "prefill", input: readCalcInput(o.input) };
+    case "calculate": {
+      const requestId = requestIdOf(o.requestId);
+      return { type: "calculate", input: readCalcInput(o.input), ...(requestId !== undefined && { requestId }) };
+    }
+    default:
+      return `Unknown message type ${JSON.stringify(o.type)}.`;
+  }
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { AMT_CREDIT_SHARE, AMT_RATE, amtExemption, computeAmt } from "./amt";
+import { calculateScenario } from "./index";
+import { computePersonalTax, grossUpDividends } from "./personalTax";
+import { resolveTaxRules } from "./taxYears";
+
+const BC = resolveTaxRules("BC", 2025);
+const bpaCredit = BC.federal.bpa * BC.federal.creditRate * AMT_CREDIT_SHARE;
+
+describe("computeAmt", () => {
+  it("exempts income up to the start of the 4th federal bracket", () => {
+    expect(amtExemption(BC)).toBe(BC.federal.brackets[2][0]);
+    const r = computeAmt({ taxableIncome: amtExemption(BC), creditAmounts: 0, eligibleGrossedUp: 0, nonEligibleGrossedUp: 0 }, 0, BC);
+    expect(r.minimumAmount).toBe(0);
+    expect(r.amt).toBe(0);
+  });
+
+  it("backs the dividend gross-up out of adjusted taxable income", () => {
+    const g = grossUpDividends(300_000, 100_000);
+    const r = computeAmt(
+      { taxableIncome: g.total, creditAmounts: BC.federal.bpa, eligibleGrossedUp: g.eligible, nonEligibleGrossedUp: g.nonEligible },
+      0,
+      BC
+    );
+    expect(r.adjustedTaxableIncome).toBeCloseTo(400_000, 6);
+    expect(r.minimumAmount).toBeCloseTo((400_000 - amtExemption(BC)) * AMT_RATE - bpaCredit, 6);
+  });
+
+  it("allows only half of the non-refundable credits (2025 hand calculation)", () => {
+    // (500,000 − 177,882) × 20.5% − 50% × 16,129 × 14.5% = 66,034.19 − 1,169.3525
+    const r = computeAmt(
+      { taxableIncome: 500_000, creditAmounts: 16_129, eligibleGrossedUp: 0, nonEligibleGrossedUp: 0 },
+      0,
+      BC
+    );
+    expect(r.exemption).toBe(177_882);
+    expect(r.minimumAmount).toBeCloseTo(64_864.8375, 6);
+  });
+
+  it("charges the excess of the minimum amount over regular tax and carries it forward", () => {
+    const input = { taxableIncome: 500_000, creditAmounts: BC.federal.bpa, eligibleGrossedUp: 0, nonEligibleGrossedUp: 0 };
+    const minimum = (500_000 - amtExemption(BC)) * AMT_RATE - bpaCredit;
+    const r = computeAmt(input, minimum - 10_000, BC, 2_000);
+    expect(r.amt).toBeCloseTo(10_000, 6);
+    expect(r.creditUsed).toBe(0);
+    expect(r.carryForward).toBeCloseTo(12_000, 6);
+  });
+
+  it("recovers carried-forward AMT when regular tax exceeds the minimum amount", () => {
+    const input = { taxableIncome: 200_000, creditAmounts: 0, eligibleGrossedUp: 0, nonEligibleGrossedUp: 0 };
+    const r = computeAmt(input, 50_000, BC, 5_000);
+    expect(r.amt).toBe(0);
+    expect(r.creditUsed).toBe(5_000);
+    expect(r.carryForward).toBe(0);
+  });
+});
+
+describe("AMT in the personal tax pipeline", () => {
+  it("leaves ordinary salary and dividend returns alone", () => {
+    const g = grossUpDividends(200_000, 0);
+    const t = computePersonalTax({ taxableIncome: g.total, eligibleGrossedUp: g.eligible }, BC);
+    expect(t.amt).toBe(0);
+    expect(t.amtCarryForward).toBe(0);
+  });
+
+  it("takes a carried-forward credit off federal tax in every scenario", () => {
+    const base = { businessIncome: 200_000, personalCashNeeded: 90_000, province: "BC" as const, taxYear: 2025 };
+    const plain = calculateScenario(base, "INC_SALARY");
+    const r = calculateScenario({ ...base, amtCarryForward: 3_000 }, "INC_SALARY");
+    expect(r.amtCarryForward).toBe(0);
+    expect(r.grossSalary).toBeLessThan(plain.grossSalary);
+    expect(r.personalCash).toBeCloseTo(base.personalCashNeeded, 0);
+  });
+});
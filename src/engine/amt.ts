@@ -0,0 +1,78 @@
+// src/engine/amt.ts
+import type { TaxRules } from "./taxYears";
+import { DIVIDENDS_2025 } from "./taxTables_2025_BC";
+
+/**
+ * Alternative Minimum Tax (federal, 2024+ rules)
+ * - Adjusted taxable income (ATI): taxable income with dividends at their CASH amount
+ *   (the gross-up is backed out). No capital gains or other preferences arise here.
+ * - Exemption: the start of the 4th federal bracket (indexed with the brackets).
+ * - Minimum amount: 20.5% × (ATI − exemption), less 50% of the federal non-refundable
+ *   credits (BPA, CPP, EI, employment, age, …) at the federal credit rate. Dividend tax
+ *   credits are NOT allowed against it.
+ * - AMT = minimum amount − regular federal tax, when positive. It becomes a credit that
+ *   can be recovered in later years when regular tax exceeds the minimum amount
+ *   (the 7-year expiry isn't tracked).
+ * - Provincial minimum taxes aren't modelled.
+ */
+
+export const AMT_RATE = 0.205;
+export const AMT_CREDIT_SHARE = 0.5; // share of non-refundable credits allowed (2024+)
+
+export type AmtInput = {
+  taxableIncome: number;
+  creditAmounts: number;        // federal credit amounts, incl. the BPA (no DTCs)
+  eligibleGrossedUp: number;
+  nonEligibleGrossedUp: number;
+};
+
+export type AmtResult = {
+  adjustedTaxableIncome: number;
+  exemption: number;
+  minimumAmount: number;
+  amt: number;               // added to federal tax this year
+  creditUsed: number;        // carry-forward recovered against regular tax
+  carryForward: number;      // closing AMT credit
+};
+
+/** Gross-up removed from ATI (grossed-up × (gross-up − 1) / gross-up) */
+const grossUpPortion = (grossedUp: number, factor: number) => (grossedUp * (factor - 1)) / factor;
+
+export function amtExemption(rules: TaxRules) {
+  return rules.federal.brackets[2][0];
+}
+
+export function computeAmt(
+  input: AmtInput,
+  regularFederalTax: number,
+  rules: TaxRules,
+  carryForward = 0
+): AmtResult {
+  const fed = rules.federal;
+  const adjustedTaxableIncome = Math.max(
+    0,
+    input.taxableIncome
+      - grossUpPortion(input.eligibleGrossedUp, DIVIDENDS_2025.GROSS_UP.eligible)
+      - grossUpPortion(input.nonEligibleGrossedUp, DIVIDENDS_2025.GROSS_UP.nonEligible)
+  );
+
+  const exemption = amtExemption(rules);
+  const minimumAmount = Math.max(
+    0,
+    Math.max(0, adjustedTaxableIncome - exemption) * AMT_RATE
+      - input.creditAmounts * fed.creditRate * AMT_CREDIT_SHARE
+  );
+
+  const opening = Math.max(0, carryForward);
+  const amt = Math.max(0, minimumAmount - regularFederalTax);
+  const creditUsed = amt > 0 ? 0 : Math.min(opening, regularFederalTax - minimumAmount);
+
+  return {
+    adjustedTaxableIncome,
+    exemption,
+    minimumAmount,
+    amt,
+    creditUsed,
+    carryForward: opening - creditUsed + amt,
+  };
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { findBreakEven, findBreakEvens, incorporationAdvantage } from "./breakEven";
+
+describe("findBreakEven", () => {
+  const params = { businessIncome: 0, personalCashNeeded: 80_000, province: "BC" as const, taxYear: 2025 };
+  const dividends = { scenarios: ["INC_DIVIDENDS" as const], steps: 20 };
+
+  it("lands where the advantage over not incorporating turns positive", () => {
+    const [point] = findBreakEvens(params, dividends);
+    const income = point.businessIncome!;
+    expect(point.aheadAtMin).toBe(false);
+    expect(income).toBeGreaterThan(80_000);
+    expect(incorporationAdvantage(params, "INC_DIVIDENDS", income)).toBeGreaterThan(0);
+    expect(incorporationAdvantage(params, "INC_DIVIDENDS", income - 100)).toBeLessThanOrEqual(0);
+    expect(point.advantageAtMax).toBeGreaterThan(0);
+  });
+
+  it("is never ahead while the corporation can't fund the cash needed", () => {
+    expect(incorporationAdvantage(params, "INC_SALARY", 50_000)).toBeLessThanOrEqual(0);
+    expect(incorporationAdvantage(params, "INC_DIVIDENDS", 50_000)).toBeLessThanOrEqual(0);
+  });
+
+  it("moves up with annual incorporation costs", () => {
+    const base = findBreakEven(params, "INC_DIVIDENDS", dividends);
+    const costly = findBreakEven(params, "INC_DIVIDENDS", { ...dividends, annualCosts: 5_000 });
+    expect(costly.businessIncome!).toBeGreaterThan(base.businessIncome!);
+  });
+
+  it("supports the tax + CPP basis", () => {
+    const point = findBreakEven(params, "INC_SALARY", { basis: "TAX_AND_CPP", steps: 20 });
+    const income = point.businessIncome!;
+    expect(incorporationAdvantage(params, "INC_SALARY", income, { basis: "TAX_AND_CPP" })).toBeGreaterThan(0);
+    expect(
+      incorporationAdvantage(params, "INC_SALARY", income - 100, { basis: "TAX_AND_CPP" })
+    ).toBeLessThanOrEqual(0);
+  });
+
+  it("returns null when the range never gets ahead", () => {
+    const point = findBreakEven(params, "INC_DIVIDENDS", { ...dividends, minIncome: 20_000, maxIncome: 60_000 });
+    expect(point.businessIncome).toBeNull();
+    expect(point.advantageAtMax).toBeLessThanOrEqual(0);
+  });
+});
@@ -0,0 +1,103 @@
+// src/engine/breakEven.ts
+import { calculateScenario } from "./scenarios";
+import { sweepIncomes } from "./sweep";
+import type { CalcParams, Scenario, ScenarioOutput } from "./type";
+
+/**
+ * Break-even income — "at what business income does incorporating start paying off?"
+ * - For each incorporated scenario, the advantage over not incorporating at a given income:
+ *   * TOTAL_CASH: incorporated totalCash − unincorporated totalCash
+ *   * TAX_AND_CPP: unincorporated (tax + CPP + EI) − incorporated (tax + CPP + EI + costs)
+ * - Optional annual incorporation costs (accounting, legal, filing fees) are deductible
+ *   corporate expenses in the incorporated scenarios only.
+ * - Everything but businessIncome stays as entered (cash needed, province, year, options).
+ * - An incorporated scenario is never "ahead" while it can't fund the cash needed: dividends
+ *   capped by after-tax profit, or a salary (plus employer costs) bigger than the profit.
+ * - Search: scan evenly spaced incomes for the first one where the advantage turns positive,
+ *   then bisect between it and the previous one down to `tolerance`. Only the FIRST crossing
+ *   is reported (the advantage isn't guaranteed to stay positive above it).
+ */
+
+export type BreakEvenBasis = "TOTAL_CASH" | "TAX_AND_CPP";
+
+export type BreakEvenOptions = {
+  basis?: BreakEvenBasis;         // default TOTAL_CASH
+  annualCosts?: number;           // extra yearly cost of running the corporation
+  minIncome?: number;             // search range (default $10k – $1M)
+  maxIncome?: number;
+  steps?: number;                 // scan intervals before bisecting (default 40)
+  tolerance?: number;             // $ (default 100)
+  scenarios?: Scenario[];         // incorporated scenarios to check (default all three)
+};
+
+export type BreakEvenPoint = {
+  scenario: Scenario;
+  businessIncome: number | null;  // null: never ahead within the range
+  aheadAtMin: boolean;            // already ahead at the bottom of the range
+  advantageAtMax: number;         // advantage at the top of the range ($)
+};
+
+export const INCORPORATED_SCENARIOS: Scenario[] = ["INC_SALARY", "INC_DIVIDENDS", "INC_MIXED"];
+
+const costOf = (r: ScenarioOutput) => r.totalTaxes + r.totalCPP + r.totalEI;
+
+/** Can the corporation actually pay this draw out of the year's profit? */
+function isFunded(r: ScenarioOutput, profit: number) {
+  const payroll = r.grossSalary + r.corporateCPP + r.corporateEI + r.employerHealthTax + r.worksafePremium;
+  return !r._cappedByAfterTaxProfit && payroll + r.pensionContribution <= profit + 0.01;
+}
+
+/** Advantage of `scenario` over not incorporating at this income (> 0: incorporating wins) */
+export function incorporationAdvantage(
+  params: CalcParams,
+  scenario: Scenario,
+  businessIncome: number,
+  opts: Pick<BreakEvenOptions, "basis" | "annualCosts"> = {}
+) {
+  const costs = Math.max(0, opts.annualCosts ?? 0);
+  const otherExpenses = (params.otherExpenses ?? 0) + costs;
+  const uninc = calculateScenario({ ...params, businessIncome }, "UNINCORPORATED");
+  const inc = calculateScenario({ ...params, businessIncome, otherExpenses }, scenario);
+
+  const advantage = opts.basis === "TAX_AND_CPP"
+    ? costOf(uninc) - (costOf(inc) + costs)
+    : inc.totalCash - uninc.totalCash;
+  return isFunded(inc, businessIncome - otherExpenses) ? advantage : Math.min(0, advantage);
+}
+
+export function findBreakEven(params: CalcParams, scenario: Scenario, opts: BreakEvenOptions = {}): BreakEvenPoint {
+  const min = Math.max(0, opts.minIncome ?? 10_000);
+  const max = Math.max(min, opts.maxIncome ?? 1_000_000);
+  const tolerance = Math.max(1, opts.tolerance ?? 100);
+  const advantage = (income: number) => incorporationAdvantage(params, scenario, income, opts);
+
+  // The grid ends at max, so `last` is the advantage there if we never get ahead
+  const grid = sweepIncomes(min, max, opts.steps ?? 40);
+  let prev: number | null = null;
+  let last = 0;
+  for (const income of grid) {
+    last = advantage(income);
+    if (last <= 0) {
+      prev = income;
+      continue;
+    }
+    if (prev == null) {
+      return { scenario, businessIncome: income, aheadAtMin: true, advantageAtMax: advantage(max) };
+    }
+
+    // Bisect: behind at lo, ahead at hi
+    let lo = prev;
+    let hi = income;
+    while (hi - lo > tolerance) {
+      const mid = (lo + hi) / 2;
+      if (advantage(mid) > 0) hi = mid;
+      else lo = mid;
+    }
+    return { scenario, businessIncome: Math.round(hi), aheadAtMin: false, advantageAtMax: advantage(max) };
+  }
+  return { scenario, businessIncome: null, aheadAtMin: false, advantageAtMax: last };
+}
+
+export function findBreakEvens(params: CalcParams, opts: BreakEvenOptions = {}): BreakEvenPoint[] {
+  return (opts.scenarios ?? INCORPORATED_SCENARIOS).map((s) => findBreakEven(params, s, opts));
+}
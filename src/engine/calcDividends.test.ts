@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { personalDividendTaxCombined, solveEligibleGivenNonEligible } from "./calcDividends";
+import { resolveTaxRules } from "./taxYears";
+
+const BC = resolveTaxRules("BC", 2025);
+const netAt = (elig: number, nonElig: number) =>
+  elig + nonElig - personalDividendTaxCombined(elig, nonElig, BC).personalTax;
+
+describe("solveEligibleGivenNonEligible", () => {
+  it.each([
+    [50_000, 0],
+    [100_000, 0],
+    [150_000, 40_000],
+  ])("hits a net of %i (with %i non-eligible) within a cent", (target, nonElig) => {
+    const elig = solveEligibleGivenNonEligible(target, nonElig, 1_000_000, BC);
+    expect(Math.abs(netAt(elig, nonElig) - target)).toBeLessThanOrEqual(0.02);
+  });
+
+  it("returns the cap when the cap can't reach the target", () => {
+    expect(solveEligibleGivenNonEligible(100_000, 0, 50_000, BC)).toBe(50_000);
+  });
+});
+
+describe("personalDividendTaxCombined", () => {
+  it("reports the grossed-up amount as taxable", () => {
+    expect(personalDividendTaxCombined(100_000, 50_000, BC).taxableAmount).toBeCloseTo(
+      100_000 * 1.38 + 50_000 * 1.15,
+      6
+    );
+  });
+});
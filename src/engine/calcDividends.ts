@@ -0,0 +1,267 @@
+// src/engine/calcDividends.ts
+import { applyPassiveGrind, computeCorporateTaxes } from "./corporateTax";
+import { computeDividendRefund, computeInvestmentTaxes } from "./investmentIncome";
+import { computePersonalTax, grossUpDividends } from "./personalTax";
+import { rrspContributionFor, rrspRefundFor } from "./rrsp";
+import { resolveTaxRules, type TaxRules } from "./taxYears";
+import type { CalcParams, PersonalProfile, ScenarioOutput } from "./type";
+
+/**
+ * Incorporated with Dividends — federal + selected province and tax year
+ * - Corporate tax at the small-business rate creates the non-eligible pool,
+ *   general-rate income creates the eligible pool.
+ * - Tax-free CAPITAL dividends go out first, up to the CDA balance; then ELIGIBLE,
+ *   topped up with non-eligible, to hit the target net.
+ * - Personal tax on the combined grossed-up dividends (BPA once, DTCs per class). No CPP.
+ *   Dividends aren't earned income, so only carry-forward RRSP room can be deducted.
+ * - Corporate investment income adds to the pools after Part I/IV tax; dividends paid
+ *   trigger refunds out of RDTOH (see investmentIncome.ts).
+ */
+
+export type DividendScenarioOutput = ScenarioOutput & {
+  _requiredDividendToHitTarget: number;
+  _cappedByAfterTaxProfit: boolean;
+};
+
+/* ================================
+   Personal dividend tax — combined
+   (BPA applied once across both)
+   ================================ */
+
+export function personalDividendTaxCombined(
+  eligibleCash: number,
+  nonEligibleCash: number,
+  rules: TaxRules,
+  rrspDeduction = 0,
+  profile: PersonalProfile = {}
+) {
+  const grossed = grossUpDividends(eligibleCash, nonEligibleCash);
+
+  // Tax on combined grossed-up income (less any RRSP deduction); DTCs per class's grossed-up base, BPA once
+  const taxInput = {
+    taxableIncome: Math.max(0, grossed.total - rrspDeduction),
+    eligibleGrossedUp: grossed.eligible,
+    nonEligibleGrossedUp: grossed.nonEligible,
+    profile,
+  };
+  const tax = computePersonalTax(taxInput, rules);
+
+  return {
+    personalTax: tax.personalTax,
+    federalTax: tax.federalTax,
+    provincialTax: tax.provincialTax,
+    amt: tax.amt,
+    amtCarryForward: tax.amtCarryForward,
+    oasClawback: tax.oasClawback,
+    credits: tax.credits,
+    taxableAmount: taxInput.taxableIncome,
+    taxInput,
+  };
+}
+
+/** Solve eligible dividend amount given a fixed non-eligible amount and a target net. */
+export function solveEligibleGivenNonEligible(
+  targetNet: number,
+  nonEligibleFixed: number,
+  eligCap: number,
+  rules: TaxRules,
+  rrspDeduction = 0,
+  profile: PersonalProfile = {}
+) {
+  const netAt = (x: number) => {
+    const det = personalDividendTaxCombined(x, nonEligibleFixed, rules, rrspDeduction, profile);
+    return x + nonEligibleFixed - det.personalTax;
+  };
+
+  // If even full cap can't reach target, use the cap
+  if (netAt(eligCap) < targetNet - 0.01) return eligCap;
+
+  let low = 0;
+  let high = Math.max(eligCap, 1);
+  let lastMid = high;
+
+  for (let i = 0; i < 80; i++) {
+    const mid = (low + high) / 2;
+    const n = netAt(mid);
+    if (Math.abs(n - targetNet) <= 0.01 || Math.abs(mid - lastMid) <= 0.01) return Math.min(mid, eligCap);
+    if (n < targetNet) low = mid; else high = mid;
+    lastMid = mid;
+  }
+  return Math.min(lastMid, eligCap);
+}
+
+/** Mirror helper: solve non-eligible given a fixed eligible amount and a target net. */
+function solveNonEligibleGivenEligible(
+  targetNet: number,
+  eligibleFixed: number,
+  neCap: number,
+  rules: TaxRules,
+  rrspDeduction = 0,
+  profile: PersonalProfile = {}
+) {
+  const netAt = (ne: number) => {
+    const det = personalDividendTaxCombined(eligibleFixed, ne, rules, rrspDeduction, profile);
+    return eligibleFixed + ne - det.personalTax;
+  };
+
+  if (netAt(neCap) < targetNet - 0.01) return neCap;
+
+  let low = 0, high = Math.max(neCap, 1), lastMid = high;
+  for (let i = 0; i < 80; i++) {
+    const mid = (low + high) / 2;
+    const n = netAt(mid);
+    if (Math.abs(n - targetNet) <= 0.01 || Math.abs(mid - lastMid) <= 0.01) {
+      return Math.min(mid, neCap);
+    }
+    if (n < targetNet) low = mid; else high = mid;
+    lastMid = mid;
+  }
+  return Math.min(lastMid, neCap);
+}
+
+/** Convenience: net from a combined cash dividend. */
+const netCombined = (
+  eligibleCash: number,
+  nonEligibleCash: number,
+  rules: TaxRules,
+  rrspDeduction = 0,
+  profile: PersonalProfile = {}
+) => {
+  const det = personalDividendTaxCombined(eligibleCash, nonEligibleCash, rules, rrspDeduction, profile);
+  return eligibleCash + nonEligibleCash - det.personalTax;
+};
+
+/* ================================
+   Exported calculator (auto-mix, ELIGIBLE FIRST)
+   ================================ */
+
+export function calculateIncorporatedDividends(params: CalcParams): DividendScenarioOutput {
+  const { businessIncome, personalCashNeeded, otherExpenses = 0, province = "BC" } = params;
+  const rules = applyPassiveGrind(
+    resolveTaxRules(province, params.taxYear, params.inflationRate),
+    params.priorYearInvestmentIncome
+  );
+
+  // 1) Corporate profit & split into pools (CCPC, selected province)
+  //    small-business rate → NON-eligible, general rate → ELIGIBLE
+  const profitBeforeTax = Math.max(0, businessIncome - (otherExpenses || 0));
+  const corp = computeCorporateTaxes(profitBeforeTax, rules);
+  const inv = computeInvestmentTaxes(params.investmentIncome, rules, params.openingRdtoh, params.openingCda);
+
+  // investment income: taxable income → NON-eligible, portfolio dividends → ELIGIBLE,
+  // non-taxable half of gains → CDA
+  const neCap = corp.sbdPortion - corp.taxOnSBD + inv.afterTaxCash.nonEligible; // NON-eligible capacity
+  const elCap = corp.genPortion - corp.taxOnGen + inv.afterTaxCash.eligible;    // ELIGIBLE capacity
+  const afterTaxTotal = neCap + elCap + inv.afterTaxCash.capital;
+
+  // RRSP: carry-forward room only (dividends create no new room); the contribution is paid
+  // out of the dividends, so they have to cover it on top of the cash needed
+  const rrspContribution = rrspContributionFor(0, rules, params);
+  const cashBeforeRrsp = Math.max(0, personalCashNeeded) + rrspContribution;
+
+  // 2) Tax-free capital dividends first (no personal tax, so $1 paid = $1 net)
+  const capitalDividends = Math.min(inv.cda, cashBeforeRrsp);
+  const target = Math.max(0, cashBeforeRrsp - capitalDividends);
+
+  // 3) Try to hit the rest of the target using ELIGIBLE only
+  let eligibleDividends = 0;
+  let nonEligibleDividends = 0;
+
+  const eligOnly = solveEligibleGivenNonEligible(target, 0, elCap, rules, rrspContribution, params);
+  if (netCombined(eligOnly, 0, rules, rrspContribution, params) + 0.01 >= target) {
+    // Eligible alone can meet the goal (and is within cap by construction)
+    eligibleDividends = eligOnly;
+  } else {
+    // Use full eligible capacity first...
+    eligibleDividends = elCap;
+
+    // ...then top up with non-eligible as needed (respect cap)
+    const neNeeded = solveNonEligibleGivenEligible(
+      target, eligibleDividends, neCap, rules, rrspContribution, params
+    );
+    nonEligibleDividends = Math.min(neNeeded, neCap);
+  }
+
+  // Final (safer caps)
+  eligibleDividends = Math.min(eligibleDividends, elCap);
+  nonEligibleDividends = Math.min(nonEligibleDividends, neCap);
+
+  // 4) Personal tax on the combined taxable dividends (BPA once, DTCs per class)
+  const det = personalDividendTaxCombined(eligibleDividends, nonEligibleDividends, rules, rrspContribution, params);
+  const personalTaxes = det.personalTax;
+  const rrspRefund    = rrspRefundFor(det.taxInput, rrspContribution, rules);
+  const rrspSaved     = rrspContribution;
+  const personalCash  = capitalDividends + eligibleDividends + nonEligibleDividends - personalTaxes - rrspSaved;
+
+  // 5) Dividend refund out of RDTOH, then corporate cash retained after paying dividends
+  const refund = computeDividendRefund(inv.rdtoh, eligibleDividends, nonEligibleDividends);
+  const investmentTaxes = inv.investmentTaxes;
+  const dividendRefund  = refund.refund;
+  const corporateTaxes  = corp.corporateTaxes + investmentTaxes - dividendRefund;
+
+  const corporateCash =
+    afterTaxTotal - capitalDividends - eligibleDividends - nonEligibleDividends + dividendRefund;
+
+  // Totals/ratios
+  const totalCPP = 0; // dividends don't trigger CPP
+  const totalTaxes = personalTaxes + corporateTaxes;
+  const totalCash  = personalCash + corporateCash + rrspSaved;
+  const totalIncome = businessIncome + inv.grossIncome;
+  const totalTaxRate = totalIncome > 0 ? (totalTaxes + totalCPP) / totalIncome : 0;
+
+  // “Capped” indicator (couldn’t meet target because pools limited)
+  const capped = netCombined(elCap, neCap, rules, rrspContribution, params) + 0.01 < target;
+
+  return {
+    scenario: "INC_DIVIDENDS",
+
+    // salary fields 0 in dividend-only
+    grossSalary: 0,
+    eligibleDividends,
+    nonEligibleDividends,
+    capitalDividends,
+
+    corporateTaxes,
+    corporateCPP: 0,
+    investmentTaxes,
+    dividendRefund,
+
+    personalTaxes,
+    totalTaxes,
+    totalCPP,
+    personalCPP: 0,
+    personalEI: 0,
+    corporateEI: 0,
+    totalEI: 0,
+    employerHealthTax: 0,
+    worksafePremium: 0,
+
+    corporateCash,
+    personalCash,
+    totalCash,
+    totalTaxRate,
+
+    rrspRoom: 0,
+    rrspContribution,
+    rrspRefund,
+    rrspSaved,
+    pensionContribution: 0,
+    pensionAdjustment: 0,
+    rdtohEligible: refund.closing.eligible,
+    rdtohNonEligible: refund.closing.nonEligible,
+    cdaBalance: inv.cda - capitalDividends,
+    amt: det.amt,
+    amtCarryForward: det.amtCarryForward,
+    oasClawback: det.oasClawback,
+    credits: det.credits,
+
+    // reporting (net amounts after credits)
+    federalTax: det.federalTax,
+    provincialTax: det.provincialTax,
+    taxableIncome: det.taxableAmount,
+
+    // debug flags
+    _requiredDividendToHitTarget: capitalDividends + eligibleDividends + nonEligibleDividends,
+    _cappedByAfterTaxProfit: capped,
+  };
+}
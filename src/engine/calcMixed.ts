@@ -0,0 +1,285 @@
+// src/engine/calcMixed.ts
+import { cppForEmployeeSalary } from "./cppHelpers";
+import { DEFAULT_OWNER_EI_STATUS, eiForEmployeeSalary, type EiStatus } from "./ei";
+import { applyPassiveGrind, computeCorporateTaxes } from "./corporateTax";
+import { computeDividendRefund, computeInvestmentTaxes, type InvestmentTaxResult } from "./investmentIncome";
+import { payrollCostsFor } from "./payrollTax";
+import { computePersonalTax, grossUpDividends } from "./personalTax";
+import { rrspContributionFor, rrspRefundFor, rrspRoomFor } from "./rrsp";
+import { resolveTaxRules, type TaxRules } from "./taxYears";
+import type { CalcInput, CalcParams, MixObjective, PersonalParams, ScenarioOutput } from "./type";
+
+/**
+ * Incorporated — Salary + Dividend mix (federal + selected province and tax year)
+ *
+ * - For a given salary, corporate profit is what's left after salary, employer CPP (and
+ *   employer EI when the owner is insurable), employer payroll taxes on the salary (BC EHT,
+ *   WorkSafeBC) and other expenses. Corp tax splits it into a non-eligible (SBD) and an eligible (general) pool.
+ * - No IPP: pension funding is modelled in the salary-only scenario.
+ * - Dividends then top up personal cash to the target, ELIGIBLE first (same order as the
+ *   dividend-only scenario). Salary and dividends land on one return: BPA applied once,
+ *   CPP base credit on the salary, DTCs per dividend class.
+ * - The salary is searched from $0 (all dividends) up to the salary that alone meets the
+ *   target; the split with the best objective wins (splits that hit the target beat ones that don't).
+ * - Corporate investment income is taxed and pooled as in the dividend-only scenario,
+ *   and tax-free capital dividends (CDA) cover the target before salary or dividends.
+ */
+
+/** ---------- search settings ---------- */
+const GRID_STEPS = 50;     // coarse pass over [0, max salary]
+const REFINE_ROUNDS = 3;   // each round zooms into ±1 step around the best point
+const TOLERANCE = 0.01;    // $0.01
+
+export type MixedScenarioOutput = ScenarioOutput & {
+  objective: MixObjective;
+  _cappedByAfterTaxProfit: boolean;
+};
+
+/** ---------- helpers ---------- */
+/** Smallest x in [0, cap] with f(x) >= target (f increasing). Returns cap if unreachable. */
+function solveUpTo(f: (x: number) => number, target: number, cap: number) {
+  const c = Math.max(0, cap);
+  if (f(0) >= target) return 0;
+  if (f(c) < target - TOLERANCE) return c;
+
+  let low = 0, high = c;
+  for (let i = 0; i < 80 && high - low > TOLERANCE; i++) {
+    const mid = (low + high) / 2;
+    if (f(mid) < target) low = mid; else high = mid;
+  }
+  return high;
+}
+
+/** Personal tax on salary + dividends on a single return. */
+function personalTaxMixed(
+  grossSalary: number,
+  eligibleCash: number,
+  nonEligibleCash: number,
+  rules: TaxRules,
+  personal: PersonalParams = {}
+) {
+  const cpp = cppForEmployeeSalary(grossSalary, rules.cpp);
+  const ei  = eiForEmployeeSalary(grossSalary, personal.eiStatus ?? DEFAULT_OWNER_EI_STATUS, rules.ei);
+  const grossed = grossUpDividends(eligibleCash, nonEligibleCash);
+
+  // Salary is reduced by deductible EE CPP (enhanced + CPP2); dividends add their grossed-up amount;
+  // the RRSP deduction comes off the total (room comes from the salary + carry-forward)
+  const rrspContribution = rrspContributionFor(grossSalary, rules, personal);
+  const taxableIncome = Math.max(
+    0,
+    Math.max(0, grossSalary - cpp.personalDeduction) + grossed.total - rrspContribution
+  );
+
+  // Non-refundable credits: BPA + employment amount + CPP base EE + EI credits + DTCs per class
+  const taxInput = {
+    taxableIncome,
+    creditAmounts: cpp.credits.baseEE,
+    employmentIncome: grossSalary,
+    eiPremiums: ei.employeePaid,
+    eligibleGrossedUp: grossed.eligible,
+    nonEligibleGrossedUp: grossed.nonEligible,
+    profile: personal,
+  };
+  const tax = computePersonalTax(taxInput, rules);
+
+  const federalTax    = tax.federalTax;
+  const provincialTax = tax.provincialTax;
+  const personalTaxes = federalTax + provincialTax;
+  const personalCPP   = cpp.employeePaid;
+  const personalEI    = ei.employeePaid;
+
+  // The RRSP contribution is paid out of what's left
+  const net = grossSalary + eligibleCash + nonEligibleCash - personalTaxes - personalCPP - personalEI - rrspContribution;
+
+  return { net, personalTaxes, personalCPP, personalEI, ei, federalTax, provincialTax, taxableIncome, cpp, rrspContribution, taxInput, tax };
+}
+
+/** Tax-free capital dividends toward the target, limited by the CDA */
+const capitalDividendsFor = (inv: InvestmentTaxResult, target: number) =>
+  Math.min(inv.cda, Math.max(0, target));
+
+/** Largest salary the corporation can fund (salary + employer CPP/EI + payroll taxes <= available profit). */
+function maxAffordableSalary(available: number, rules: TaxRules, eiStatus: EiStatus, worksafeRate?: number) {
+  return solveUpTo(
+    (s) =>
+      s + cppForEmployeeSalary(s, rules.cpp).employerPaid + eiForEmployeeSalary(s, eiStatus, rules.ei).employerPaid
+        + payrollCostsFor(s, rules, worksafeRate).total,
+    Math.max(0, available),
+    Math.max(0, available)
+  );
+}
+
+/** Full scenario result for one fixed salary; dividends fill the remaining gap. */
+function evaluateSplit(
+  businessIncome: number,
+  target: number,
+  otherExpenses: number,
+  objective: MixObjective,
+  rules: TaxRules,
+  inv: InvestmentTaxResult,
+  personal: PersonalParams & Pick<CalcInput, "worksafeRate">,
+  grossSalary: number
+): MixedScenarioOutput {
+  // Corporate side for this salary
+  const corporateCPP = cppForEmployeeSalary(grossSalary, rules.cpp).employerPaid;
+  const corporateEI  = eiForEmployeeSalary(
+    grossSalary, personal.eiStatus ?? DEFAULT_OWNER_EI_STATUS, rules.ei
+  ).employerPaid;
+  const payroll = payrollCostsFor(grossSalary, rules, personal.worksafeRate);
+  const corpProfitBeforeTax =
+    Math.max(0, businessIncome - grossSalary - corporateCPP - corporateEI - payroll.total - otherExpenses);
+  const corp = computeCorporateTaxes(corpProfitBeforeTax, rules);
+
+  const neCap = corp.sbdPortion - corp.taxOnSBD + inv.afterTaxCash.nonEligible; // NON-eligible capacity
+  const elCap = corp.genPortion - corp.taxOnGen + inv.afterTaxCash.eligible;    // ELIGIBLE capacity
+  const capitalDividends = capitalDividendsFor(inv, target);
+  const gap = target - capitalDividends; // left for salary + taxable dividends
+
+  // Dividends: ELIGIBLE first, then top up with non-eligible
+  const netAt = (e: number, ne: number) => personalTaxMixed(grossSalary, e, ne, rules, personal).net;
+
+  let eligibleDividends = solveUpTo((e) => netAt(e, 0), gap, elCap);
+  let nonEligibleDividends = 0;
+  if (netAt(eligibleDividends, 0) + TOLERANCE < gap) {
+    eligibleDividends = elCap;
+    nonEligibleDividends = solveUpTo((ne) => netAt(elCap, ne), gap, neCap);
+  }
+
+  const det = personalTaxMixed(grossSalary, eligibleDividends, nonEligibleDividends, rules, personal);
+
+  const refund = computeDividendRefund(inv.rdtoh, eligibleDividends, nonEligibleDividends);
+  const investmentTaxes = inv.investmentTaxes;
+  const dividendRefund  = refund.refund;
+
+  const corporateTaxes = corp.corporateTaxes + investmentTaxes - dividendRefund;
+  const corporateCash  = neCap + elCap + inv.afterTaxCash.capital
+    - capitalDividends - eligibleDividends - nonEligibleDividends + dividendRefund;
+
+  const personalTaxes = det.personalTaxes;
+  const personalCPP   = det.personalCPP;
+  const personalEI    = det.personalEI;
+  const personalCash  = det.net + capitalDividends; // after the RRSP contribution
+  const rrspSaved     = det.rrspContribution;
+
+  const totalTaxes   = personalTaxes + corporateTaxes; // (excludes CPP)
+  const totalCPP     = personalCPP + corporateCPP;
+  const totalEI      = personalEI + corporateEI;
+  const totalCash    = personalCash + corporateCash + rrspSaved;
+  const totalIncome  = businessIncome + inv.grossIncome;
+  const totalTaxRate = totalIncome > 0 ? (totalTaxes + totalCPP + totalEI + payroll.total) / totalIncome : 0;
+
+  const rrspRoom = rrspRoomFor(grossSalary, rules);
+  const rrspRefund = rrspRefundFor(det.taxInput, det.rrspContribution, rules);
+
+  return {
+    scenario: "INC_MIXED",
+
+    grossSalary,
+    eligibleDividends,
+    nonEligibleDividends,
+    capitalDividends,
+
+    corporateTaxes,
+    corporateCPP,
+    investmentTaxes,
+    dividendRefund,
+
+    personalTaxes,
+    totalTaxes,
+    totalCPP,
+    personalCPP,
+    personalEI,
+    corporateEI,
+    totalEI,
+    employerHealthTax: payroll.employerHealthTax,
+    worksafePremium: payroll.worksafePremium,
+
+    corporateCash,
+    personalCash,
+    totalCash,
+    totalTaxRate,
+    rrspRoom,
+    rrspContribution: det.rrspContribution,
+    rrspRefund,
+    rrspSaved,
+    pensionContribution: 0,
+    pensionAdjustment: 0,
+    rdtohEligible: refund.closing.eligible,
+    rdtohNonEligible: refund.closing.nonEligible,
+    cdaBalance: inv.cda - capitalDividends,
+    amt: det.tax.amt,
+    amtCarryForward: det.tax.amtCarryForward,
+    oasClawback: det.tax.oasClawback,
+    credits: det.tax.credits,
+
+    federalTax: det.federalTax,
+    provincialTax: det.provincialTax,
+    taxableIncome: det.taxableIncome,
+
+    objective,
+    _cappedByAfterTaxProfit: personalCash + TOLERANCE < target,
+  };
+}
+
+/** Lower is better. Missing the cash target always loses to hitting it. */
+function rank(r: MixedScenarioOutput, target: number): [number, number] {
+  const shortfall = Math.max(0, target - r.personalCash);
+  const score = r.objective === "MAX_TOTAL_CASH"
+    ? -r.totalCash
+    : r.totalTaxes + r.totalCPP + r.totalEI + r.employerHealthTax + r.worksafePremium;
+  return [shortfall > 1 ? shortfall : 0, score];
+}
+
+function isBetter(a: MixedScenarioOutput, b: MixedScenarioOutput, target: number) {
+  const [sa, va] = rank(a, target);
+  const [sb, vb] = rank(b, target);
+  if (sa !== sb) return sa < sb;
+  return va < vb - TOLERANCE;
+}
+
+/** ---------- main ---------- */
+export function calculateIncorporatedMixed(params: CalcParams): MixedScenarioOutput {
+  const { businessIncome, otherExpenses = 0, mixObjective: objective = "MIN_TAX_AND_CPP", province = "BC" } = params;
+  const target = Math.max(0, params.personalCashNeeded);
+  const rules = applyPassiveGrind(
+    resolveTaxRules(province, params.taxYear, params.inflationRate),
+    params.priorYearInvestmentIncome
+  );
+  const inv = computeInvestmentTaxes(params.investmentIncome, rules, params.openingRdtoh, params.openingCda);
+
+  // Salary range: $0 → the salary that alone meets what capital dividends leave (never more than the corp can fund)
+  const salaryForTarget = solveUpTo(
+    (s) => personalTaxMixed(s, 0, 0, rules, params).net,
+    target - capitalDividendsFor(inv, target),
+    Math.max(500_000, target * 2)
+  );
+  const maxSalary = Math.min(
+    salaryForTarget,
+    maxAffordableSalary(
+      businessIncome - (otherExpenses || 0), rules, params.eiStatus ?? DEFAULT_OWNER_EI_STATUS, params.worksafeRate
+    )
+  );
+
+  const evaluate = (s: number) =>
+    evaluateSplit(businessIncome, target, otherExpenses || 0, objective, rules, inv, params, s);
+
+  // Coarse grid, then zoom in around the best point
+  let step = maxSalary / GRID_STEPS;
+  let best = evaluate(0);
+  for (let i = 1; i <= GRID_STEPS; i++) {
+    const r = evaluate(Math.min(maxSalary, i * step));
+    if (isBetter(r, best, target)) best = r;
+  }
+
+  for (let round = 0; round < REFINE_ROUNDS && step > TOLERANCE; round++) {
+    const lo = Math.max(0, best.grossSalary - step);
+    const hi = Math.min(maxSalary, best.grossSalary + step);
+    step = (hi - lo) / GRID_STEPS;
+    for (let i = 0; i <= GRID_STEPS && step > 0; i++) {
+      const r = evaluate(lo + i * step);
+      if (isBetter(r, best, target)) best = r;
+    }
+  }
+
+  return best;
+}
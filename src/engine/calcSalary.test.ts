@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { netFromGross, solveGrossForNet } from "./calcSalary";
+import { resolveTaxRules } from "./taxYears";
+
+const BC = resolveTaxRules("BC", 2025);
+
+describe("netFromGross", () => {
+  it("is strictly increasing in gross salary", () => {
+    let prev = -Infinity;
+    for (let gross = 0; gross <= 1_000_000; gross += 5_000) {
+      const { net } = netFromGross(gross, BC);
+      expect(net).toBeGreaterThan(prev);
+      prev = net;
+    }
+  });
+});
+
+describe("solveGrossForNet", () => {
+  it.each([10_000, 50_000, 100_000, 250_000, 600_000])(
+    "backs into a salary that nets %i within a cent",
+    (target) => {
+      const solved = solveGrossForNet(target, BC);
+      expect(Math.abs(solved.net - target)).toBeLessThanOrEqual(0.01);
+      expect(solved.grossSalary).toBeGreaterThanOrEqual(target);
+    }
+  );
+
+  it("needs more gross for more net", () => {
+    const a = solveGrossForNet(80_000, BC).grossSalary;
+    const b = solveGrossForNet(80_100, BC).grossSalary;
+    expect(b).toBeGreaterThan(a);
+  });
+});
@@ -0,0 +1,245 @@
+// src/engine/calcSalary.ts
+import { applyPassiveGrind, computeCorporateTaxes } from "./corporateTax";
+import { computeInvestmentTaxes } from "./investmentIncome";
+import { computePersonalTax } from "./personalTax";
+import { cppForEmployeeSalary } from "./cppHelpers";
+import { DEFAULT_OWNER_EI_STATUS, eiForEmployeeSalary } from "./ei";
+import { computeIpp, definedBenefitLimit, pensionAdjustmentFor } from "./ipp";
+import { payrollCostsFor } from "./payrollTax";
+import { rrspContributionFor, rrspRefundFor, rrspRoomFor } from "./rrsp";
+import { resolveTaxRules, type TaxRules } from "./taxYears";
+import type { CalcParams, PersonalParams, ScenarioOutput } from "./type";
+
+/**
+ * Incorporated with Salary — federal + selected province and tax year (CRA-correct CPP)
+ *
+ * - Applies CPP correctly:
+ *   * PERSONAL: deduct EE T1 enhanced (1%) + EE CPP2 (4%) from taxable income; credit EE T1 base (4.95%) at lowest fed/prov rates
+ *   * CORPORATE: deduct ER T1 base (4.95%) + ER T1 enhanced (1%) + ER CPP2 (4%) from corp taxable income
+ * - CPP cash reduces net (shown separately). `totalTaxes` excludes CPP, but the displayed
+ *   effective tax rate is INCLUSIVE of CPP (both employer + employee).
+ * - Corporate tax is auto-calculated for a CCPC in the selected province (SBD rate up to the limit, general above).
+ * - Brackets, BPA credits, surtax/health premium, CPP ceilings and RRSP cap resolved from the tax-year registry
+ * - Binary search solver to back into Gross Salary for a target Personal Cash Needed
+ *   (an RRSP contribution comes out of take-home, net of the tax it saves)
+ * - EI (see ei.ts) only when the owner is insurable (default: >40% owner, exempt); the
+ *   employee premium reduces net and is a credit, the employer's 1.4× is deductible.
+ * - BC employer payroll costs (see payrollTax.ts): Employer Health Tax once the salary passes
+ *   the exemption, and WorkSafeBC at the optional classification rate. Both are deductible and
+ *   counted in the effective rate with CPP/EI.
+ * - Optional IPP (see ipp.ts): the corp deducts the pension funding, and the pension
+ *   adjustment cuts the owner's RRSP room. The pension fund counts toward total cash.
+ */
+
+// =========================
+// HELPERS
+// =========================
+
+/** Net-of-tax-and-CPP for a given gross salary (with CRA-correct CPP handling) */
+export function netFromGross(
+  grossSalary: number,
+  rules: TaxRules,
+  personal: PersonalParams = {},
+  dbLimit?: number // set when an IPP is funded: its pension adjustment cuts RRSP room
+) {
+  // CPP buckets/credits, EI premiums (if insurable)
+  const cpp = cppForEmployeeSalary(grossSalary, rules.cpp);
+  const ei  = eiForEmployeeSalary(grossSalary, personal.eiStatus ?? DEFAULT_OWNER_EI_STATUS, rules.ei);
+
+  // Personal taxable income is reduced by deductible CPP pieces (EE enhanced + EE CPP2) and RRSP
+  const pensionAdjustment = dbLimit != null ? pensionAdjustmentFor(grossSalary, dbLimit) : 0;
+  const rrspContribution = rrspContributionFor(grossSalary, rules, personal, pensionAdjustment);
+  const taxableIncome = Math.max(0, grossSalary - cpp.personalDeduction - rrspContribution);
+
+  // Income tax net of non-refundable credits: BPA + CPP base EE credit (+ AMT / OAS clawback)
+  const taxInput = {
+    taxableIncome,
+    creditAmounts: cpp.credits.baseEE,
+    employmentIncome: grossSalary,
+    eiPremiums: ei.employeePaid,
+    profile: personal,
+  };
+  const tax = computePersonalTax(taxInput, rules);
+  const fedNet  = tax.federalTax;
+  const provNet = tax.provincialTax;
+
+  const personalTaxes = fedNet + provNet;               // income tax (ex-CPP)
+  const personalCPP   = cpp.employeePaid;               // EE CPP cash reduces take-home
+  const personalEI    = ei.employeePaid;                // so does EE EI
+  const net = grossSalary - personalTaxes - personalCPP - personalEI - rrspContribution; // RRSP paid from take-home
+
+  return {
+    net,
+    personalTaxes,
+    personalCPP,
+    personalEI,
+    federalTax: fedNet,          // expose NET (after BPA + CPP credit)
+    provincialTax: provNet,      // expose NET (after BPA + CPP credit)
+    taxableIncome,
+    rrspContribution,
+    taxInput,
+    amt: tax.amt,
+    amtCarryForward: tax.amtCarryForward,
+    oasClawback: tax.oasClawback,
+    credits: tax.credits,
+    cpp,                         // return cpp buckets for corp side
+    ei,
+  };
+}
+
+// Solve gross salary for target net (binary search)
+export function solveGrossForNet(
+  personalCashNeeded: number,
+  rules: TaxRules,
+  opts?: { tolerance?: number; maxIter?: number; initialHigh?: number; personal?: PersonalParams; dbLimit?: number }
+) {
+  const personal = opts?.personal;
+  const dbLimit = opts?.dbLimit;
+  const tolerance = opts?.tolerance ?? 0.01; // $0.01
+  const maxIter = opts?.maxIter ?? 100;
+  let low = Math.max(0, personalCashNeeded);
+  let high = opts?.initialHigh ?? Math.max(500_000, personalCashNeeded * 2);
+
+  // Expand high until net(high) >= target
+  for (let i = 0; i < 20; i++) {
+    const { net } = netFromGross(high, rules, personal, dbLimit);
+    if (net >= personalCashNeeded) break;
+    high *= 2;
+  }
+
+  let lastMid = high;
+  for (let iter = 0; iter < maxIter; iter++) {
+    const mid = (low + high) / 2;
+    const solved = netFromGross(mid, rules, personal, dbLimit);
+
+    if (Math.abs(solved.net - personalCashNeeded) <= tolerance || Math.abs(mid - lastMid) <= tolerance) {
+      return { grossSalary: mid, ...solved, iterations: iter };
+    }
+
+    if (solved.net < personalCashNeeded) low = mid;
+    else high = mid;
+
+    lastMid = mid;
+  }
+
+  const solved = netFromGross(lastMid, rules, personal, dbLimit);
+  return { grossSalary: lastMid, ...solved, iterations: maxIter };
+}
+
+// =========================
+// Core scenario computation
+// =========================
+export function calculateIncorporatedSalary(params: CalcParams): ScenarioOutput {
+  const { businessIncome, personalCashNeeded, otherExpenses = 0, province = "BC" } = params;
+  const rules = applyPassiveGrind(
+    resolveTaxRules(province, params.taxYear, params.inflationRate),
+    params.priorYearInvestmentIncome
+  );
+
+  // 1) Solve gross salary for target net
+  const dbLimit = params.ipp ? definedBenefitLimit(rules.year, params.inflationRate) : undefined;
+  const solved = solveGrossForNet(personalCashNeeded, rules, { personal: params, dbLimit });
+  const grossSalary    = solved.grossSalary;
+  const personalTaxes  = solved.personalTaxes;
+  const personalCPP    = solved.personalCPP;
+  const federalTax     = solved.federalTax;
+  const provincialTax  = solved.provincialTax;
+  const taxableIncome  = solved.taxableIncome;
+  const rrspContribution = solved.rrspContribution;
+  const rrspRefund     = rrspRefundFor(
+    solved.taxInput,
+    rrspContribution,
+    rules
+  );
+
+  // 2) Corporate side (employer CPP/EI, payroll taxes and IPP funding are deductible + cash outflows)
+  const corporateCPP = solved.cpp?.employerPaid ?? 0;
+  const personalEI   = solved.personalEI;
+  const corporateEI  = solved.ei.employerPaid;
+  const payroll      = payrollCostsFor(grossSalary, rules, params.worksafeRate);
+  const payrollCosts = corporateCPP + corporateEI + payroll.total;
+  const fundingCap = businessIncome - grossSalary - payrollCosts - (otherExpenses || 0);
+  const ipp = params.ipp && dbLimit != null
+    ? computeIpp(grossSalary, params.ipp, rules, dbLimit, fundingCap)
+    : null;
+  const pensionContribution = ipp?.corporateDeduction ?? 0;
+  const pensionAdjustment   = ipp?.pensionAdjustment ?? 0;
+
+  const corpProfitBeforeTax = Math.max(
+    0,
+    businessIncome - grossSalary - payrollCosts - pensionContribution - (otherExpenses || 0)
+  );
+
+  // Auto-calc provincial + Federal corporate taxes (CCPC)
+  const active = computeCorporateTaxes(corpProfitBeforeTax, rules);
+
+  // Investment income: Part I/IV paid, RDTOH builds up (no dividends → no refund)
+  const inv = computeInvestmentTaxes(params.investmentIncome, rules, params.openingRdtoh, params.openingCda);
+  const investmentTaxes = inv.investmentTaxes;
+
+  const corporateTaxes = active.corporateTaxes + investmentTaxes;
+  const corporateCash  = corpProfitBeforeTax - active.corporateTaxes
+    + inv.afterTaxCash.nonEligible + inv.afterTaxCash.eligible + inv.afterTaxCash.capital;
+
+  // 3) Derived
+  const rrspSaved     = rrspContribution;
+  const personalCash  = grossSalary - personalTaxes - personalCPP - personalEI - rrspSaved; // ≈ personalCashNeeded
+  const totalTaxes    = personalTaxes + corporateTaxes;            // (excludes CPP)
+  const totalCPP      = personalCPP + corporateCPP;
+  const totalEI       = personalEI + corporateEI;
+  const totalCash     = personalCash + corporateCash + pensionContribution + rrspSaved;
+
+  // Effective tax rate INCLUDES CPP and EI (EE+ER) and employer payroll taxes
+  const totalIncome   = businessIncome + inv.grossIncome;
+  const totalTaxRate  = totalIncome > 0
+    ? (totalTaxes + totalCPP + totalEI + payroll.total) / totalIncome
+    : 0;
+
+  const rrspRoom      = Math.max(0, rrspRoomFor(grossSalary, rules) - pensionAdjustment);
+
+  return {
+    scenario: "INC_SALARY",
+
+    grossSalary,
+    eligibleDividends: 0,
+    nonEligibleDividends: 0,
+    capitalDividends: 0,
+
+    corporateTaxes,
+    corporateCPP,
+    investmentTaxes,
+    dividendRefund: 0,
+
+    personalTaxes,
+    totalTaxes,
+    totalCPP,
+    personalCPP,
+    personalEI,
+    corporateEI,
+    totalEI,
+    employerHealthTax: payroll.employerHealthTax,
+    worksafePremium: payroll.worksafePremium,
+
+    corporateCash,
+    personalCash,
+    totalCash,
+    totalTaxRate,
+    rrspRoom,
+    rrspContribution,
+    rrspRefund,
+    rrspSaved,
+    pensionContribution,
+    pensionAdjustment,
+    rdtohEligible: inv.rdtoh.eligible,
+    rdtohNonEligible: inv.rdtoh.nonEligible,
+    cdaBalance: inv.cda,
+    amt: solved.amt,
+    amtCarryForward: solved.amtCarryForward,
+    oasClawback: solved.oasClawback,
+    credits: solved.credits,
+
+    federalTax,
+    provincialTax,
+    taxableIncome,
+  };
+}
@@ -1,71 +1,34 @@
-import { BC_BRACKETS, FED_BRACKETS, RRSP } from "./taxTables_2025_BC";
 import { cppTaxTreatmentForUnincorporated } from "./cppHelpers";
-import type { CalcInput, ScenarioOutput } from "./types";
-
-/** ---------- BPA constants (2025) ---------- */
-const FED_BPA = 16_103;
-const FED_BPA_RATE = 0.15;     // credit @ lowest federal rate
-const BC_BPA  = 12_580;
-const BC_BPA_RATE = 0.0506;    // credit @ lowest BC rate
-
-function applyBasicCredits(
-  fedGross: number,
-  bcGross: number,
-  extraFedCredit = 0,
-  extraBcCredit = 0
-) {
-  const fedCredit = FED_BPA * FED_BPA_RATE + extraFedCredit;
-  const bcCredit  = BC_BPA  * BC_BPA_RATE + extraBcCredit;
-  return {
-    fedNet: Math.max(0, fedGross - fedCredit),
-    bcNet:  Math.max(0, bcGross  - bcCredit),
-    fedCredit,
-    bcCredit,
-  };
-}
-
-/** ---------- helpers ---------- */
-function progressiveTax(taxable: number, brackets: Array<[number, number]>): number {
-  let tax = 0, prev = 0;
-  for (const [cap, rate] of brackets) {
-    const amt = Math.max(0, Math.min(taxable, cap) - prev);
-    if (amt <= 0) break;
-    tax += amt * rate;
-    prev = cap;
-    if (taxable <= cap) break;
-  }
-  return tax;
-}
+import { eiForSelfEmployed } from "./ei";
+import { computePersonalTax } from "./personalTax";
+import { rrspContributionFor, rrspRefundFor, rrspRoomFor } from "./rrsp";
+import { resolveTaxRules } from "./taxYears";
+import type { CalcParams, ScenarioOutput } from "./type";
 
 /** ---------- main ---------- */
-export function calculateUnincorporated(input: CalcInput): ScenarioOutput {
+export function calculateUnincorporated(input: CalcParams): ScenarioOutput {
   const grossSalary = input.businessIncome; // using businessIncome as personal gross here
+  const rules = resolveTaxRules(input.province, input.taxYear, input.inflationRate);
 
   // === CPP with CRA treatment (self-employed pays both sides) ===
-  const cpp = cppTaxTreatmentForUnincorporated(grossSalary);
+  const cpp = cppTaxTreatmentForUnincorporated(grossSalary, rules.cpp);
 
   // Personal taxable income is reduced by CPP deductible pieces (enhanced + employer-equivalent)
-  const taxableIncome = Math.max(0, grossSalary - cpp.personalDeduction);
-
-  // Gross (pre-credit) taxes on reduced taxable income
-  const federalTaxGross    = progressiveTax(taxableIncome, FED_BRACKETS);
-  const provincialTaxGross = progressiveTax(taxableIncome, BC_BRACKETS);
+  // and the RRSP contribution (self-employment income is earned income)
+  const rrspContribution = rrspContributionFor(grossSalary, rules, input);
+  const taxableIncome = Math.max(0, grossSalary - cpp.personalDeduction - rrspContribution);
 
-  // CPP base employee amount gives non-refundable credits at lowest rates
-  const extraFedCredit = cpp.credits.baseEE * FED_BPA_RATE;   // 15%
-  const extraBcCredit  = cpp.credits.baseEE * BC_BPA_RATE;    // 5.06%
+  // EI special benefits only if opted in (employee rate, no employer share)
+  const personalEI = eiForSelfEmployed(grossSalary, input.eiSelfEmployedOptIn ?? false, rules.ei);
 
-  // Apply BPA + CPP credits
-  const { fedNet, bcNet } = applyBasicCredits(
-    federalTaxGross,
-    provincialTaxGross,
-    extraFedCredit,
-    extraBcCredit
-  );
+  // Taxes on reduced taxable income, net of BPA + CPP base EE + EI credits (selected province/year)
+  const taxInput = { taxableIncome, creditAmounts: cpp.credits.baseEE, eiPremiums: personalEI, profile: input };
+  const tax = computePersonalTax(taxInput, rules);
+  const rrspRefund = rrspRefundFor(taxInput, rrspContribution, rules);
 
   // Net taxes after credits (CPP cash kept separate)
-  const federalTax    = fedNet;
-  const provincialTax = bcNet;
+  const federalTax    = tax.federalTax;
+  const provincialTax = tax.provincialTax;
   const personalTaxes = federalTax + provincialTax;
 
   // CPP cash outflow is entirely personal for unincorporated
@@ -73,21 +36,22 @@ export function calculateUnincorporated(input: CalcInput): ScenarioOutput {
   const personalCPP  = totalCPP;
   const corporateCPP = 0;
 
-  // Corporate side (none for unincorporated)
+  // Corporate side (none for unincorporated; corporate investment income doesn't apply)
   const corporateTaxes = 0;
   const corporateCash  = 0;
 
-  // Cash flows
-  const personalCash = grossSalary - personalTaxes - personalCPP;
-  const totalCash    = personalCash;
+  // Cash flows (the RRSP contribution leaves personal cash but is still the owner's)
+  const rrspSaved    = rrspContribution;
+  const personalCash = grossSalary - personalTaxes - personalCPP - personalEI - rrspSaved;
+  const totalCash    = personalCash + rrspSaved;
 
   // Totals/ratios
   const totalTaxes   = personalTaxes + corporateTaxes; // (excludes CPP)
-  // ✅ Effective tax rate now INCLUSIVE of CPP
-  const totalTaxRate = grossSalary > 0 ? (totalTaxes + totalCPP) / grossSalary : 0;
+  // ✅ Effective tax rate now INCLUSIVE of CPP (and EI if opted in)
+  const totalTaxRate = grossSalary > 0 ? (totalTaxes + totalCPP + personalEI) / grossSalary : 0;
 
   // RRSP room (earned income × 18%, capped)
-  const rrspRoom     = Math.min(RRSP.MAX_2025, grossSalary * RRSP.RATE);
+  const rrspRoom     = rrspRoomFor(grossSalary, rules);
 
   return {
     scenario: "UNINCORPORATED",
@@ -95,20 +59,40 @@ export function calculateUnincorporated(input: CalcInput): ScenarioOutput {
     grossSalary,
     eligibleDividends: 0,
     nonEligibleDividends: 0,
+    capitalDividends: 0,
 
     corporateTaxes,
     corporateCPP,
+    investmentTaxes: 0,
+    dividendRefund: 0,
 
     personalTaxes,
     totalTaxes,
     totalCPP,
     personalCPP,
+    personalEI,
+    corporateEI: 0,
+    totalEI: personalEI,
+    employerHealthTax: 0,
+    worksafePremium: 0,
 
     corporateCash,
     personalCash,
     totalCash,
     totalTaxRate,
     rrspRoom,
+    rrspContribution,
+    rrspRefund,
+    rrspSaved,
+    pensionContribution: 0,
+    pensionAdjustment: 0,
+    rdtohEligible: 0,
+    rdtohNonEligible: 0,
+    cdaBalance: 0,
+    amt: tax.amt,
+    amtCarryForward: tax.amtCarryForward,
+    oasClawback: tax.oasClawback,
+    credits: tax.credits,
 
     // Expose NET (after credits) components for transparency
     federalTax,
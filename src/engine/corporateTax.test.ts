@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { computeCorporateTaxes } from "./corporateTax";
+import { SBD_LIMIT_BC, computeCorporateTaxesBC } from "./corporateTax_BC";
+import { resolveTaxRules } from "./taxYears";
+
+describe("computeCorporateTaxesBC", () => {
+  it("taxes everything at 11% up to the $500k SBD limit", () => {
+    const r = computeCorporateTaxesBC(SBD_LIMIT_BC);
+    expect(r.corporateTaxes).toBeCloseTo(55_000, 6);
+    expect(r.genPortion).toBe(0);
+  });
+
+  it("taxes the first dollar over the limit at 27%", () => {
+    const r = computeCorporateTaxesBC(SBD_LIMIT_BC + 1);
+    expect(r.sbdPortion).toBe(SBD_LIMIT_BC);
+    expect(r.genPortion).toBe(1);
+    expect(r.taxOnGen).toBeCloseTo(0.27, 6);
+  });
+
+  it("treats losses as zero profit", () => {
+    expect(computeCorporateTaxesBC(-10_000).corporateTaxes).toBe(0);
+  });
+});
+
+describe("computeCorporateTaxes", () => {
+  it("uses the SK $600k provincial limit on top of the federal $500k limit", () => {
+    // 500k × 10% + 100k × (15% fed + 1% SK) = 66,000
+    const r = computeCorporateTaxes(600_000, resolveTaxRules("SK", 2025));
+    expect(r.corporateTaxes).toBeCloseTo(66_000, 6);
+    expect(r.taxOnSBD + r.taxOnGen).toBeCloseTo(r.corporateTaxes, 6);
+  });
+});
@@ -0,0 +1,101 @@
+// src/engine/corporateTax.ts
+import type { CorporateRates } from "./jurisdictions";
+import type { TaxRules } from "./taxYears";
+
+/**
+ * CCPC active business income tax — federal + selected province
+ * - Federal and provincial layers each apply their own small-business limit
+ *   (e.g. SK's limit is $600k while the federal limit is $500k).
+ * - sbdPortion/genPortion follow the FEDERAL limit, which is what drives the
+ *   non-eligible (SBD) vs eligible (general-rate) dividend pools.
+ * - Passive income: prior-year adjusted aggregate investment income (AAII) over $50k
+ *   grinds the small-business limit by $5 per $1 (gone at $150k). Investment income
+ *   itself is taxed at the full Part I rate (no SBD, no general rate reduction) plus
+ *   the federal additional refundable tax.
+ */
+
+export type CorpTaxResult = {
+  profitBeforeTax: number;
+  sbdPortion: number;
+  genPortion: number;
+  taxOnSBD: number;
+  taxOnGen: number;
+  corporateTaxes: number;
+  effectiveRate: number;
+};
+
+/** ---------- passive income ---------- */
+export const PASSIVE_INCOME_THRESHOLD = 50_000; // AAII above this grinds the limit
+export const PASSIVE_GRIND_RATE = 5;            // $ of limit lost per $1 of AAII over the threshold
+
+/** Federal Part I on investment income: 38% − 10% abatement + 10⅔% additional refundable tax */
+export const FED_INVESTMENT_INCOME_RATE = 0.38 - 0.10 + 0.32 / 3;
+
+/** Tax on the slice [0, upTo] of profit under one layer's rates */
+function layerTax(upTo: number, r: CorporateRates) {
+  const small = Math.min(upTo, r.smallBusinessLimit);
+  const general = Math.max(0, upTo - r.smallBusinessLimit);
+  return small * r.smallBusinessRate + general * r.generalRate;
+}
+
+/** Combined (federal + provincial) small-business and general rates, for display */
+export function combinedCorporateRates(rules: TaxRules) {
+  const fed  = rules.federal.corporate;
+  const prov = rules.province.corporate;
+  return {
+    sbd_combined: fed.smallBusinessRate + prov.smallBusinessRate,
+    gen_combined: fed.generalRate + prov.generalRate,
+  };
+}
+
+export function computeCorporateTaxes(profitBeforeTax: number, rules: TaxRules): CorpTaxResult {
+  const fed  = rules.federal.corporate;
+  const prov = rules.province.corporate;
+
+  const p = Math.max(0, profitBeforeTax);
+  const sbdPortion = Math.min(p, fed.smallBusinessLimit);
+  const genPortion = Math.max(0, p - fed.smallBusinessLimit);
+
+  const corporateTaxes = layerTax(p, fed) + layerTax(p, prov);
+  const taxOnSBD = layerTax(sbdPortion, fed) + layerTax(sbdPortion, prov);
+  const taxOnGen = corporateTaxes - taxOnSBD;
+
+  const effectiveRate = p > 0 ? corporateTaxes / p : 0;
+
+  return { profitBeforeTax: p, sbdPortion, genPortion, taxOnSBD, taxOnGen, corporateTaxes, effectiveRate };
+}
+
+/** Federal small-business limit after the passive-income grind */
+export function groundSmallBusinessLimit(limit: number, priorYearAAII: number) {
+  const reduction = Math.max(0, priorYearAAII - PASSIVE_INCOME_THRESHOLD) * PASSIVE_GRIND_RATE;
+  return Math.max(0, limit - reduction);
+}
+
+/**
+ * Rules with the small-business limit ground down by the prior year's AAII.
+ * Provinces that follow the grind lose the same share of their own limit
+ * (e.g. SK's $600k shrinks in step with the federal $500k).
+ */
+export function applyPassiveGrind(rules: TaxRules, priorYearAAII = 0): TaxRules {
+  const fed  = rules.federal.corporate;
+  const prov = rules.province.corporate;
+
+  const fedLimit = groundSmallBusinessLimit(fed.smallBusinessLimit, priorYearAAII);
+  if (fedLimit >= fed.smallBusinessLimit) return rules;
+
+  const share = fed.smallBusinessLimit > 0 ? fedLimit / fed.smallBusinessLimit : 0;
+  const provLimit = prov.followsPassiveGrind === false
+    ? prov.smallBusinessLimit
+    : prov.smallBusinessLimit * share;
+
+  return {
+    ...rules,
+    federal:  { ...rules.federal,  corporate: { ...fed,  smallBusinessLimit: fedLimit } },
+    province: { ...rules.province, corporate: { ...prov, smallBusinessLimit: provLimit } },
+  };
+}
+
+/** Combined Part I tax on investment income (federal + provincial general rate) */
+export function investmentIncomeRate(rules: TaxRules) {
+  return FED_INVESTMENT_INCOME_RATE + rules.province.corporate.generalRate;
+}
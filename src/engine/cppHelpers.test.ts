@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { CPP_2025, cppForEmployeeSalary, cppTaxTreatmentForUnincorporated } from "./cppHelpers";
+
+// 2025 CRA maximums: EE/ER base+enhanced $4,034.10 each, CPP2 $396 each
+const MAX_EE_T1 = 4_034.1;
+const MAX_EE_T2 = 396;
+
+describe("cppTaxTreatmentForUnincorporated", () => {
+  it("charges nothing up to the basic exemption", () => {
+    const r = cppTaxTreatmentForUnincorporated(CPP_2025.BASIC_EXEMPTION);
+    expect(r.personalPaid).toBe(0);
+    expect(r.personalDeduction).toBe(0);
+    expect(r.credits.baseEE).toBe(0);
+  });
+
+  it("pays both sides of tier 1 at the YMPE", () => {
+    const r = cppTaxTreatmentForUnincorporated(CPP_2025.YMPE);
+    expect(r.parts.t1Base).toBe(67_800);
+    expect(r.parts.t2Base).toBe(0);
+    expect(r.personalPaid).toBeCloseTo(2 * MAX_EE_T1, 2);
+  });
+
+  it("maxes out at the YAMPE and stays flat above it", () => {
+    const atYampe = cppTaxTreatmentForUnincorporated(CPP_2025.YAMPE);
+    const above = cppTaxTreatmentForUnincorporated(500_000);
+    expect(atYampe.personalPaid).toBeCloseTo(2 * (MAX_EE_T1 + MAX_EE_T2), 2); // 8,860.20
+    expect(above.personalPaid).toBeCloseTo(atYampe.personalPaid, 6);
+  });
+
+  it("credits only the EE base and deducts everything else", () => {
+    const r = cppTaxTreatmentForUnincorporated(150_000);
+    expect(r.credits.baseEE).toBeCloseTo(3_356.1, 2);
+    expect(r.personalDeduction).toBeCloseTo(5_504.1, 2);
+    expect(r.credits.baseEE + r.personalDeduction).toBeCloseTo(r.personalPaid, 6);
+  });
+});
+
+describe("cppForEmployeeSalary", () => {
+  it("splits EE and ER equally and caps at the 2025 maximums", () => {
+    const r = cppForEmployeeSalary(200_000);
+    expect(r.employeePaid).toBeCloseTo(MAX_EE_T1 + MAX_EE_T2, 2);
+    expect(r.employerPaid).toBeCloseTo(r.employeePaid, 6);
+    expect(r.corporateDeduction).toBeCloseTo(r.employerPaid, 6);
+    expect(r.personalDeduction).toBeCloseTo(678 + MAX_EE_T2, 2); // EE enhanced + EE CPP2
+  });
+
+  it("starts CPP2 just above the YMPE", () => {
+    expect(cppForEmployeeSalary(CPP_2025.YMPE).parts.ee_t2).toBe(0);
+    expect(cppForEmployeeSalary(CPP_2025.YMPE + 1_000).parts.ee_t2).toBeCloseTo(40, 6);
+  });
+});
@@ -24,10 +24,13 @@ export const CPP_2025 = {
   T2_RATE:      0.0400, // 4.00% (CPP2)
 } as const;
 
-function splitCPPBases(gross: number) {
+/** Same shape as CPP_2025, for other (published or projected) years */
+export type CppRates = { readonly [K in keyof typeof CPP_2025]: number };
+
+function splitCPPBases(gross: number, rates: CppRates) {
   const s = Math.max(0, gross);
-  const t1Base = Math.max(0, Math.min(s, CPP_2025.YMPE) - CPP_2025.BASIC_EXEMPTION);
-  const t2Base = Math.max(0, Math.min(s, CPP_2025.YAMPE) - CPP_2025.YMPE);
+  const t1Base = Math.max(0, Math.min(s, rates.YMPE) - rates.BASIC_EXEMPTION);
+  const t2Base = Math.max(0, Math.min(s, rates.YAMPE) - rates.YMPE);
   return { t1Base, t2Base };
 }
 
@@ -61,18 +64,21 @@ export type SelfEmployedCPPResult = {
 /**
  * Self-employed (unincorporated) CPP breakdown with CRA tax treatment.
  */
-export function cppTaxTreatmentForUnincorporated(gross: number): SelfEmployedCPPResult {
-  const { t1Base, t2Base } = splitCPPBases(gross);
+export function cppTaxTreatmentForUnincorporated(
+  gross: number,
+  rates: CppRates = CPP_2025
+): SelfEmployedCPPResult {
+  const { t1Base, t2Base } = splitCPPBases(gross, rates);
 
   // Employee-equivalent portions
-  const ee_t1_base = t1Base * CPP_2025.T1_BASE_RATE; // credit (non-refundable)
-  const ee_t1_enh  = t1Base * CPP_2025.T1_ENH_RATE;  // deductible
-  const ee_t2      = t2Base * CPP_2025.T2_RATE;      // deductible
+  const ee_t1_base = t1Base * rates.T1_BASE_RATE; // credit (non-refundable)
+  const ee_t1_enh  = t1Base * rates.T1_ENH_RATE;  // deductible
+  const ee_t2      = t2Base * rates.T2_RATE;      // deductible
 
   // Employer-equivalent portions
-  const er_t1_base = t1Base * CPP_2025.T1_BASE_RATE; // deductible
-  const er_t1_enh  = t1Base * CPP_2025.T1_ENH_RATE;  // deductible
-  const er_t2      = t2Base * CPP_2025.T2_RATE;      // deductible
+  const er_t1_base = t1Base * rates.T1_BASE_RATE; // deductible
+  const er_t1_enh  = t1Base * rates.T1_ENH_RATE;  // deductible
+  const er_t2      = t2Base * rates.T2_RATE;      // deductible
 
   // Total cash paid by self-employed (you pay both sides)
   const personalPaid =
@@ -98,3 +104,55 @@ export function cppTaxTreatmentForUnincorporated(gross: number): SelfEmployedCPP
     },
   };
 }
+
+export type EmployeeCPPResult = {
+  /** Cash CPP withheld from the employee */
+  employeePaid: number;
+  /** Cash CPP paid by the employer (the corporation) */
+  employerPaid: number;
+
+  /** Employee-side amounts deductible from personal income (EE enhanced + EE CPP2) */
+  personalDeduction: number;
+  /** Employer-side amounts deductible from corporate income (all ER pieces) */
+  corporateDeduction: number;
+
+  /** Amounts that become non-refundable credits (employee base only) */
+  credits: {
+    baseEE: number; // 4.95% * T1 base
+  };
+
+  parts: SelfEmployedCPPResult["parts"];
+};
+
+/**
+ * Employee (incorporated, paid by salary) CPP breakdown with CRA tax treatment.
+ * - EE base is a non-refundable credit; EE enhanced + EE CPP2 are personal deductions.
+ * - All ER pieces are deductible to the corporation.
+ */
+export function cppForEmployeeSalary(
+  gross: number,
+  rates: CppRates = CPP_2025
+): EmployeeCPPResult {
+  const { t1Base, t2Base } = splitCPPBases(gross, rates);
+
+  const ee_t1_base = t1Base * rates.T1_BASE_RATE;
+  const ee_t1_enh  = t1Base * rates.T1_ENH_RATE;
+  const ee_t2      = t2Base * rates.T2_RATE;
+
+  const er_t1_base = t1Base * rates.T1_BASE_RATE;
+  const er_t1_enh  = t1Base * rates.T1_ENH_RATE;
+  const er_t2      = t2Base * rates.T2_RATE;
+
+  return {
+    employeePaid: ee_t1_base + ee_t1_enh + ee_t2,
+    employerPaid: er_t1_base + er_t1_enh + er_t2,
+    personalDeduction: ee_t1_enh + ee_t2,
+    corporateDeduction: er_t1_base + er_t1_enh + er_t2,
+    credits: { baseEE: ee_t1_base },
+    parts: {
+      t1Base, t2Base,
+      ee_t1_base, ee_t1_enh, ee_t2,
+      er_t1_base, er_t1_enh, er_t2,
+    },
+  };
+}
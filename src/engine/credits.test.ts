@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { basicPersonalAmount, computeCredits } from "./credits";
+import { calculateScenario } from "./index";
+import { computePersonalTax } from "./personalTax";
+import { resolveTaxRules } from "./taxYears";
+
+const BC = resolveTaxRules("BC", 2025);
+const ON = resolveTaxRules("ON", 2025);
+const FED = BC.federal;
+
+describe("basicPersonalAmount", () => {
+  const start = FED.brackets[2][0];
+  const end = FED.brackets[3][0];
+
+  it("phases the federal BPA down between the 4th and 5th bracket thresholds", () => {
+    expect(basicPersonalAmount(start, FED)).toBe(FED.bpa);
+    expect(basicPersonalAmount(end, FED)).toBe(FED.credits.bpaMin);
+    expect(basicPersonalAmount(1_000_000, FED)).toBe(FED.credits.bpaMin);
+    expect(basicPersonalAmount((start + end) / 2, FED)).toBeCloseTo((FED.bpa + FED.credits.bpaMin!) / 2, 6);
+  });
+
+  it("keeps provincial BPAs flat", () => {
+    expect(basicPersonalAmount(1_000_000, BC.province)).toBe(BC.province.bpa);
+  });
+});
+
+describe("computeCredits", () => {
+  it("gives the Canada Employment Amount on salary only", () => {
+    expect(computeCredits({ netIncome: 80_000, employmentIncome: 80_000 }, BC).federal.canadaEmployment)
+      .toBe(FED.credits.canadaEmployment);
+    expect(computeCredits({ netIncome: 1_000, employmentIncome: 1_000 }, BC).federal.canadaEmployment).toBe(1_000);
+    expect(computeCredits({ netIncome: 80_000 }, BC).federal.canadaEmployment).toBe(0);
+    expect(computeCredits({ netIncome: 80_000, employmentIncome: 80_000 }, BC).provincial.canadaEmployment).toBe(0);
+  });
+
+  it("applies BC's low-income tax reduction, phased out by 3.56% of net income", () => {
+    const { max, threshold, rate } = BC.province.credits.taxReduction!;
+    expect(computeCredits({ netIncome: 20_000 }, BC).taxReduction).toBe(max);
+    expect(computeCredits({ netIncome: 30_000 }, BC).taxReduction).toBeCloseTo(max - rate * (30_000 - threshold), 6);
+    expect(computeCredits({ netIncome: 60_000 }, BC).taxReduction).toBe(0);
+    expect(computeCredits({ netIncome: 20_000 }, ON).taxReduction).toBe(0);
+  });
+
+  it("reduces the age amount by 15% of net income over the threshold", () => {
+    const { amount, threshold } = FED.credits.age;
+    expect(computeCredits({ netIncome: 40_000, profile: { age: 64 } }, BC).federal.age).toBe(0);
+    expect(computeCredits({ netIncome: 40_000, profile: { age: 70 } }, BC).federal.age).toBe(amount);
+    expect(computeCredits({ netIncome: threshold + 10_000, profile: { age: 70 } }, BC).federal.age)
+      .toBeCloseTo(amount - 1_500, 6);
+    expect(computeCredits({ netIncome: 200_000, profile: { age: 70 } }, BC).federal.age).toBe(0);
+  });
+
+  it("caps the pension amount and takes disability and tuition where they exist", () => {
+    const c = computeCredits(
+      { netIncome: 60_000, profile: { pensionIncome: 10_000, disability: true, tuition: 4_000 } },
+      BC
+    );
+    expect(c.federal.pension).toBe(FED.credits.pension);
+    expect(c.provincial.pension).toBe(BC.province.credits.pension);
+    expect(c.federal.disability).toBe(FED.credits.disability);
+    expect(c.federal.tuition).toBe(4_000);
+    expect(c.provincial.tuition).toBe(0); // BC eliminated its tuition credit
+  });
+});
+
+describe("credits in the personal tax pipeline", () => {
+  it("lowers tax on salary by the employment amount", () => {
+    const plain = computePersonalTax({ taxableIncome: 80_000 }, BC);
+    const salary = computePersonalTax({ taxableIncome: 80_000, employmentIncome: 80_000 }, BC);
+    expect(plain.federalTax - salary.federalTax).toBeCloseTo(FED.credits.canadaEmployment! * FED.creditRate, 6);
+    expect(salary.credits.canadaEmployment).toBeCloseTo(FED.credits.canadaEmployment! * FED.creditRate, 6);
+  });
+
+  it("takes the BC tax reduction off provincial tax", () => {
+    const r = computePersonalTax({ taxableIncome: 22_000 }, BC);
+    expect(r.credits.taxReduction).toBeGreaterThan(0);
+    expect(r.provincialTax).toBe(0);
+  });
+
+  it("raises tax for high earners as the BPA phases out", () => {
+    const at = (income: number) => computePersonalTax({ taxableIncome: income }, BC);
+    const full = FED.bpa * FED.creditRate;
+    expect(at(100_000).credits.basicPersonal).toBeCloseTo(full + BC.province.bpa * BC.province.creditRate, 6);
+    expect(at(400_000).credits.basicPersonal)
+      .toBeCloseTo(FED.credits.bpaMin! * FED.creditRate + BC.province.bpa * BC.province.creditRate, 6);
+  });
+
+  it("itemizes credits on every scenario", () => {
+    const input = { businessIncome: 150_000, personalCashNeeded: 100_000, province: "BC" as const, taxYear: 2025 };
+    expect(calculateScenario(input, "INC_SALARY").credits.canadaEmployment).toBeGreaterThan(0);
+    expect(calculateScenario(input, "INC_DIVIDENDS").credits.canadaEmployment).toBe(0);
+    expect(calculateScenario(input, "UNINCORPORATED").credits.cpp).toBeGreaterThan(0);
+  });
+});
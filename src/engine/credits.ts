@@ -0,0 +1,114 @@
+// src/engine/credits.ts
+import type { Jurisdiction } from "./jurisdictions";
+import type { TaxRules } from "./taxYears";
+import type { PersonalProfile } from "./type";
+
+/**
+ * Non-refundable credits — shared by every calculator (through computePersonalTax)
+ * - Federal BPA phases down from the full amount to bpaMin as net income goes from the
+ *   start of the 4th federal bracket to the start of the 5th.
+ * - Canada Employment Amount: the lesser of the amount and employment income (salary only;
+ *   self-employment income and dividends don't qualify).
+ * - CPP base contributions, as passed in by the CPP helpers, and EI premiums paid.
+ * - From the owner's profile, when set: age amount (65+, less 15% of net income over the
+ *   threshold), pension amount (eligible pension income, capped), disability amount and
+ *   tuition (federal, plus provinces that still have the credit).
+ * - Every amount is taken at its jurisdiction's credit rate. BC's low-income tax reduction
+ *   then comes off BC tax after credits.
+ * - Net income is taken as taxable income (no other deductions are modelled).
+ */
+
+export type CreditItems = {
+  basicPersonal: number;
+  canadaEmployment: number;
+  cpp: number;
+  ei: number;
+  age: number;
+  pension: number;
+  disability: number;
+  tuition: number;
+};
+
+export type CreditsResult = {
+  federal: CreditItems & { total: number };    // credit AMOUNTS (× federal credit rate)
+  provincial: CreditItems & { total: number }; // credit AMOUNTS (× provincial credit rate)
+  taxReduction: number;                        // provincial low-income reduction ($)
+};
+
+/** Dollar value of each credit, federal + provincial, before the floor at zero tax */
+export type CreditValues = CreditItems & { taxReduction: number };
+
+export type CreditInput = {
+  netIncome: number;
+  employmentIncome?: number;
+  cppAmount?: number;
+  eiPremiums?: number;
+  profile?: PersonalProfile;
+};
+
+const AGE_AMOUNT_REDUCTION = 0.15;
+const AGE_AMOUNT_AGE = 65;
+
+const pos = (n?: number) => Math.max(0, n ?? 0);
+
+/** BPA after the high-income phase-out (no phase-out when the jurisdiction has no bpaMin) */
+export function basicPersonalAmount(netIncome: number, j: Jurisdiction) {
+  const min = j.credits.bpaMin;
+  if (min == null) return j.bpa;
+
+  const start = j.brackets[2][0];
+  const end   = j.brackets[3][0];
+  const share = Math.min(1, Math.max(0, (netIncome - start) / (end - start)));
+  return j.bpa - (j.bpa - min) * share;
+}
+
+function creditItemsFor(j: Jurisdiction, input: CreditInput) {
+  const t = j.credits;
+  const profile = input.profile ?? {};
+  const net = pos(input.netIncome);
+
+  const items: CreditItems = {
+    basicPersonal: basicPersonalAmount(net, j),
+    canadaEmployment: Math.min(pos(t.canadaEmployment), pos(input.employmentIncome)),
+    cpp: pos(input.cppAmount),
+    ei: pos(input.eiPremiums),
+    age: (profile.age ?? 0) >= AGE_AMOUNT_AGE
+      ? Math.max(0, t.age.amount - AGE_AMOUNT_REDUCTION * Math.max(0, net - t.age.threshold))
+      : 0,
+    pension: Math.min(t.pension, pos(profile.pensionIncome)),
+    disability: profile.disability ? t.disability : 0,
+    tuition: t.tuition ? pos(profile.tuition) : 0,
+  };
+  const total = Object.values(items).reduce((s, v) => s + v, 0);
+  return { ...items, total };
+}
+
+export function computeCredits(input: CreditInput, rules: TaxRules): CreditsResult {
+  const reduction = rules.province.credits.taxReduction;
+  const taxReduction = reduction
+    ? Math.max(0, reduction.max - reduction.rate * Math.max(0, pos(input.netIncome) - reduction.threshold))
+    : 0;
+
+  return {
+    federal: creditItemsFor(rules.federal, input),
+    provincial: creditItemsFor(rules.province, input),
+    taxReduction,
+  };
+}
+
+export function creditValues(c: CreditsResult, rules: TaxRules): CreditValues {
+  const value = (k: keyof CreditItems) =>
+    c.federal[k] * rules.federal.creditRate + c.provincial[k] * rules.province.creditRate;
+
+  return {
+    basicPersonal: value("basicPersonal"),
+    canadaEmployment: value("canadaEmployment"),
+    cpp: value("cpp"),
+    ei: value("ei"),
+    age: value("age"),
+    pension: value("pension"),
+    disability: value("disability"),
+    tuition: value("tuition"),
+    taxReduction: c.taxReduction,
+  };
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { EI_2025, eiForEmployeeSalary, eiForSelfEmployed } from "./ei";
+import { calculateHousehold } from "./household";
+import { calculateScenario } from "./index";
+
+describe("eiForEmployeeSalary", () => {
+  it("charges the employee rate up to the maximum insurable earnings, employer 1.4×", () => {
+    const r = eiForEmployeeSalary(50_000, "ARM_LENGTH");
+    expect(r.employeePaid).toBeCloseTo(50_000 * EI_2025.RATE, 6);
+    expect(r.employerPaid).toBeCloseTo(r.employeePaid * 1.4, 6);
+
+    const max = eiForEmployeeSalary(200_000, "RELATED");
+    expect(max.insurableEarnings).toBe(EI_2025.MIE);
+    expect(max.employeePaid).toBeCloseTo(EI_2025.MIE * EI_2025.RATE, 6);
+  });
+
+  it("exempts an owner with more than 40% of the shares", () => {
+    const r = eiForEmployeeSalary(100_000, "OWNER_OVER_40");
+    expect(r.insurable).toBe(false);
+    expect(r.employeePaid + r.employerPaid).toBe(0);
+  });
+});
+
+describe("eiForSelfEmployed", () => {
+  it("is zero unless opted in, and has no employer share", () => {
+    expect(eiForSelfEmployed(80_000, false)).toBe(0);
+    expect(eiForSelfEmployed(80_000, true)).toBeCloseTo(EI_2025.MIE * EI_2025.RATE, 6);
+  });
+});
+
+describe("EI in the scenarios", () => {
+  const base = { businessIncome: 200_000, personalCashNeeded: 90_000, province: "BC" as const, taxYear: 2025 };
+
+  it("leaves a >40% owner's salary alone by default", () => {
+    const r = calculateScenario(base, "INC_SALARY");
+    expect(r.totalEI).toBe(0);
+  });
+
+  it("withholds EI from an insurable owner and deducts the employer share", () => {
+    const plain = calculateScenario(base, "INC_SALARY");
+    const r = calculateScenario({ ...base, eiStatus: "ARM_LENGTH" }, "INC_SALARY");
+    expect(r.personalEI).toBeCloseTo(EI_2025.MIE * EI_2025.RATE, 6);
+    expect(r.corporateEI).toBeCloseTo(r.personalEI * 1.4, 6);
+    expect(r.grossSalary).toBeGreaterThan(plain.grossSalary);
+    expect(Math.abs(r.personalCash - base.personalCashNeeded)).toBeLessThan(1);
+    expect(r.credits.ei).toBeGreaterThan(0);
+  });
+
+  it("charges the self-employed premium only when opted in", () => {
+    const plain = calculateScenario(base, "UNINCORPORATED");
+    const r = calculateScenario({ ...base, eiSelfEmployedOptIn: true }, "UNINCORPORATED");
+    expect(r.personalEI).toBeCloseTo(EI_2025.MIE * EI_2025.RATE, 6);
+    expect(r.corporateEI).toBe(0);
+    expect(r.personalCash).toBeLessThan(plain.personalCash);
+    expect(r.personalTaxes).toBeLessThan(plain.personalTaxes); // EI credit
+  });
+
+  it("puts family members on payroll under EI (related) by default", () => {
+    const h = calculateHousehold(
+      { ...base, family: [{ name: "Spouse", relation: "SPOUSE", age: 45, salary: 40_000 }] },
+      "INC_DIVIDENDS"
+    );
+    expect(h.members[0].personalEI).toBeCloseTo(40_000 * EI_2025.RATE, 6);
+    expect(h.members[0].employerEI).toBeCloseTo(40_000 * EI_2025.RATE * 1.4, 6);
+    expect(h.householdTotalEI).toBeCloseTo(h.members[0].personalEI + h.members[0].employerEI, 6);
+  });
+});
@@ -0,0 +1,68 @@
+// src/engine/ei.ts
+
+/**
+ * Employment Insurance premiums (outside Quebec)
+ * - Employee premium: RATE × insurable earnings up to the maximum insurable earnings (MIE).
+ *   It's withheld from pay and claimed as a non-refundable credit.
+ * - Employer premium: 1.4 × the employee premium, deductible to the corporation.
+ * - Who's insurable, by relationship to the corporation:
+ *   * ARM_LENGTH: ordinary employee — premiums on both sides.
+ *   * RELATED: family of the owner (≤ 40% of the voting shares). Treated as insurable,
+ *     which is CRA's answer when pay and terms match what a stranger would get.
+ *   * OWNER_OVER_40: controls more than 40% of the voting shares — excluded, no premiums.
+ * - Self-employed (unincorporated) can opt into special benefits: employee rate only,
+ *   on self-employment earnings up to the MIE, no employer share. Also a credit.
+ */
+
+export const EI_2025 = {
+  MIE: 65_700,               // maximum insurable earnings
+  RATE: 0.0164,              // employee rate (per $ of insurable earnings)
+  EMPLOYER_MULTIPLIER: 1.4,
+} as const;
+
+/** Same shape as EI_2025, for other (published or projected) years */
+export type EiRates = { readonly [K in keyof typeof EI_2025]: number };
+
+export type EiStatus = "ARM_LENGTH" | "RELATED" | "OWNER_OVER_40";
+
+export const EI_STATUSES: EiStatus[] = ["ARM_LENGTH", "RELATED", "OWNER_OVER_40"];
+
+/** Owner-managers usually hold more than 40% of the votes */
+export const DEFAULT_OWNER_EI_STATUS: EiStatus = "OWNER_OVER_40";
+
+export type EmployeeEIResult = {
+  insurable: boolean;
+  insurableEarnings: number;
+  employeePaid: number;  // withheld; non-refundable credit
+  employerPaid: number;  // deductible to the corporation
+};
+
+export function isInsurable(status: EiStatus) {
+  return status !== "OWNER_OVER_40";
+}
+
+/** EI on a salary paid by the corporation */
+export function eiForEmployeeSalary(
+  gross: number,
+  status: EiStatus,
+  rates: EiRates = EI_2025
+): EmployeeEIResult {
+  if (!isInsurable(status)) {
+    return { insurable: false, insurableEarnings: 0, employeePaid: 0, employerPaid: 0 };
+  }
+  const insurableEarnings = Math.min(Math.max(0, gross), rates.MIE);
+  const employeePaid = insurableEarnings * rates.RATE;
+
+  return {
+    insurable: true,
+    insurableEarnings,
+    employeePaid,
+    employerPaid: employeePaid * rates.EMPLOYER_MULTIPLIER,
+  };
+}
+
+/** Special-benefits premium for a self-employed person who opted in (0 otherwise) */
+export function eiForSelfEmployed(earnings: number, optedIn: boolean, rates: EiRates = EI_2025) {
+  if (!optedIn) return 0;
+  return Math.min(Math.max(0, earnings), rates.MIE) * rates.RATE;
+}
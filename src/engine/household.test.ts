@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { calculateScenario } from "./index";
+import { calculateHousehold, computeMemberTax, tosiApplies, type FamilyMember } from "./household";
+import { computePersonalTax, grossUpDividends } from "./personalTax";
+import { resolveTaxRules } from "./taxYears";
+
+const BC = resolveTaxRules("BC", 2025);
+const spouse = (over: Partial<FamilyMember> = {}): FamilyMember => ({
+  name: "Spouse",
+  relation: "SPOUSE",
+  age: 45,
+  ...over,
+});
+
+describe("tosiApplies", () => {
+  it.each([
+    ["NONE", 45, true],
+    ["EXCLUDED_BUSINESS", 18, false],
+    ["EXCLUDED_BUSINESS", 17, true],
+    ["EXCLUDED_SHARES", 25, false],
+    ["EXCLUDED_SHARES", 22, true],
+  ] as const)("%s at age %i → %s", (exemption, age, applies) => {
+    expect(tosiApplies(spouse({ exemption, age }))[0]).toBe(applies);
+  });
+});
+
+describe("computeMemberTax", () => {
+  it("taxes split income at the top rate less the DTC, with no BPA", () => {
+    const r = computeMemberTax(spouse({ dividends: 20_000 }), BC);
+    const grossed = 20_000 * 1.15;
+    const expected =
+      grossed * (0.33 - BC.federal.dtcRate.nonEligible) +
+      grossed * (0.205 - BC.province.dtcRate.nonEligible);
+    expect(r.tosiApplies).toBe(true);
+    expect(r.regularTax).toBe(0);
+    expect(r.tosiTax).toBeCloseTo(expected, 6);
+  });
+
+  it("taxes exempt dividends on the regular return", () => {
+    const r = computeMemberTax(spouse({ dividends: 20_000, exemption: "EXCLUDED_SHARES" }), BC);
+    const grossed = grossUpDividends(0, 20_000);
+    const expected = computePersonalTax(
+      { taxableIncome: grossed.total, nonEligibleGrossedUp: grossed.nonEligible },
+      BC
+    ).personalTax;
+    expect(r.tosiApplies).toBe(false);
+    expect(r.tosiTax).toBe(0);
+    expect(r.personalTaxes).toBeCloseTo(expected, 6);
+  });
+
+  it("never applies TOSI to salary", () => {
+    const r = computeMemberTax(spouse({ salary: 40_000 }), BC);
+    expect(r.tosiTax).toBe(0);
+    expect(r.personalCPP).toBeGreaterThan(0);
+    expect(r.personalCash).toBeCloseTo(40_000 - r.personalTaxes - r.personalCPP - r.personalEI, 6);
+  });
+});
+
+describe("calculateHousehold", () => {
+  const base = { businessIncome: 250_000, personalCashNeeded: 80_000, province: "BC" as const, taxYear: 2025 };
+
+  it("deducts family salaries (and employer CPP) from the business", () => {
+    const h = calculateHousehold({ ...base, family: [spouse({ salary: 50_000 })] }, "INC_DIVIDENDS");
+    const alone = calculateScenario(base, "INC_DIVIDENDS");
+    expect(h.familySalaries).toBeCloseTo(50_000 + h.members[0].employerCPP + h.members[0].employerEI, 6);
+    expect(h.owner.corporateTaxes).toBeLessThan(alone.corporateTaxes);
+  });
+
+  it("pays family dividends from corporate cash and adds up the household", () => {
+    const h = calculateHousehold(
+      { ...base, family: [spouse({ dividends: 40_000, exemption: "EXCLUDED_SHARES" })] },
+      "INC_DIVIDENDS"
+    );
+    expect(h.familyDividends).toBe(40_000);
+    expect(h.corporateCash).toBeCloseTo(h.owner.corporateCash - 40_000 + h.familyDividendRefund, 6);
+    expect(h.householdPersonalCash).toBeCloseTo(h.owner.personalCash + h.members[0].personalCash, 6);
+    expect(h.householdTotalCash).toBeCloseTo(h.householdPersonalCash + h.corporateCash, 6);
+  });
+
+  it("splitting with an exempt spouse beats keeping all income with the owner", () => {
+    const single = calculateScenario({ ...base, personalCashNeeded: 140_000 }, "INC_DIVIDENDS");
+    const split = calculateHousehold(
+      { ...base, family: [spouse({ dividends: 70_000, exemption: "EXCLUDED_SHARES" })] },
+      "INC_DIVIDENDS"
+    );
+    expect(split.householdTotalTaxes).toBeLessThan(single.totalTaxes);
+  });
+
+  it("counts the owner's RRSP savings in the household total", () => {
+    const input = { ...base, businessIncome: 200_000, rrspContribution: 10_000, rrspCarryForwardRoom: 10_000 };
+    const h = calculateHousehold({ ...input, family: [] }, "INC_DIVIDENDS");
+    const alone = calculateScenario(input, "INC_DIVIDENDS");
+    expect(h.owner.rrspSaved).toBe(10_000);
+    expect(h.householdTotalCash).toBeCloseTo(alone.totalCash, 6);
+  });
+
+  it("ignores family dividends when unincorporated", () => {
+    const h = calculateHousehold({ ...base, family: [spouse({ dividends: 10_000 })] }, "UNINCORPORATED");
+    expect(h.familyDividends).toBe(0);
+    expect(h.warnings.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,235 @@
+// src/engine/household.ts
+import { calculateScenario } from "./scenarios";
+import { applyPassiveGrind } from "./corporateTax";
+import { cppForEmployeeSalary } from "./cppHelpers";
+import { eiForEmployeeSalary, type EiStatus } from "./ei";
+import { computeDividendRefund } from "./investmentIncome";
+import type { Jurisdiction } from "./jurisdictions";
+import { computePersonalTax, grossUpDividends } from "./personalTax";
+import { resolveTaxRules, type TaxRules } from "./taxYears";
+import type { CalcParams, Scenario, ScenarioOutput } from "./type";
+
+/**
+ * Household mode — income splitting with a spouse / adult children
+ * - The owner's scenario runs as usual; family salaries (+ employer CPP and EI) are business
+ *   expenses first (deductible in every scenario, incl. unincorporated).
+ * - Family on payroll are RELATED for EI by default: insurable, premiums on both sides
+ *   (the owner's >40% exemption doesn't extend to them).
+ * - Family dividends (non-eligible) are paid out of what the corp keeps after the owner's
+ *   draw, capped at that cash, and trigger their own RDTOH refund.
+ * - Each person files their own return: salary with CPP/EI, other income, and dividends.
+ * - TOSI: family dividends are split income, taxed at the top federal + provincial rate
+ *   less the dividend tax credit only (no BPA), unless the member qualifies for an
+ *   exclusion: EXCLUDED_BUSINESS (18+, actively engaged ≥ 20 h/week) or EXCLUDED_SHARES
+ *   (25+, ≥ 10% of votes and value). Salaries aren't split income.
+ * - A member's other income (e.g. a spouse's job) is on their return and in their cash.
+ */
+
+export type FamilyRelation = "SPOUSE" | "ADULT_CHILD";
+export type TosiExemption = "NONE" | "EXCLUDED_BUSINESS" | "EXCLUDED_SHARES";
+
+export type FamilyMember = {
+  name: string;
+  relation: FamilyRelation;
+  age: number;
+  salary?: number;
+  dividends?: number;    // non-eligible dividends from the corp
+  otherIncome?: number;  // taxed normally, not from the business
+  exemption?: TosiExemption;
+  eiStatus?: EiStatus;   // default RELATED
+};
+
+export type HouseholdInput = CalcParams & { family: FamilyMember[] };
+
+export type MemberResult = {
+  name: string;
+  relation: FamilyRelation;
+
+  salary: number;
+  dividends: number;
+  otherIncome: number;
+
+  tosiApplies: boolean;
+  regularTax: number;   // tax on salary, other income and non-TOSI dividends
+  tosiTax: number;      // tax on split income
+  personalTaxes: number;
+  federalTax: number;
+  provincialTax: number;
+
+  personalCPP: number;  // EE CPP on the salary
+  employerCPP: number;
+  personalEI: number;   // EE EI on the salary
+  employerEI: number;
+  personalCash: number;
+};
+
+export type HouseholdResult = {
+  scenario: Scenario;
+  owner: ScenarioOutput;
+  members: MemberResult[];
+
+  familySalaries: number;   // incl. employer CPP and EI
+  familyDividends: number;  // actually paid (after the cash cap)
+  familyDividendRefund: number;
+
+  householdPersonalCash: number;
+  corporateCash: number;
+  householdTotalTaxes: number; // personal (everyone) + corporate (excludes CPP)
+  householdTotalCPP: number;
+  householdTotalEI: number;
+  householdTotalCash: number;
+
+  warnings: string[];
+};
+
+const pos = (n?: number) => Math.max(0, n ?? 0);
+
+const memberEI = (m: FamilyMember, rules: TaxRules) =>
+  eiForEmployeeSalary(pos(m.salary), m.eiStatus ?? "RELATED", rules.ei);
+
+/** Highest marginal rate of a jurisdiction */
+const topRate = (j: Jurisdiction) => j.brackets[j.brackets.length - 1][1];
+
+/** Does TOSI apply to this member's dividends? (first element: applies, second: why not) */
+export function tosiApplies(member: FamilyMember): [boolean, string | null] {
+  const exemption = member.exemption ?? "NONE";
+  if (exemption === "EXCLUDED_BUSINESS") {
+    if (member.age >= 18) return [false, null];
+    return [true, `${member.name}: excluded business needs age 18+`];
+  }
+  if (exemption === "EXCLUDED_SHARES") {
+    if (member.age >= 25) return [false, null];
+    return [true, `${member.name}: excluded shares need age 25+`];
+  }
+  return [true, null];
+}
+
+/** One family member's return */
+export function computeMemberTax(member: FamilyMember, rules: TaxRules): MemberResult {
+  const salary      = pos(member.salary);
+  const dividends   = pos(member.dividends);
+  const otherIncome = pos(member.otherIncome);
+  const [tosi] = tosiApplies(member);
+
+  const cpp = cppForEmployeeSalary(salary, rules.cpp);
+  const ei  = memberEI(member, rules);
+  const grossed = grossUpDividends(0, dividends);
+
+  // Regular return: salary (less deductible EE CPP) + other income (+ dividends when not split income)
+  const regularDividends = tosi ? 0 : grossed.nonEligible;
+  const regular = computePersonalTax(
+    {
+      taxableIncome: Math.max(0, salary - cpp.personalDeduction) + otherIncome + regularDividends,
+      creditAmounts: cpp.credits.baseEE,
+      employmentIncome: salary,
+      eiPremiums: ei.employeePaid,
+      nonEligibleGrossedUp: regularDividends,
+    },
+    rules
+  );
+
+  // TOSI: top rate on the grossed-up split income, only the DTC offsets it
+  const tosiAt = (j: Jurisdiction) =>
+    tosi ? Math.max(0, grossed.nonEligible * (topRate(j) - j.dtcRate.nonEligible)) : 0;
+  const tosiFed  = tosiAt(rules.federal);
+  const tosiProv = tosiAt(rules.province);
+
+  const federalTax    = regular.federalTax + tosiFed;
+  const provincialTax = regular.provincialTax + tosiProv;
+  const personalTaxes = federalTax + provincialTax;
+
+  return {
+    name: member.name,
+    relation: member.relation,
+
+    salary,
+    dividends,
+    otherIncome,
+
+    tosiApplies: tosi && dividends > 0,
+    regularTax: regular.personalTax,
+    tosiTax: tosiFed + tosiProv,
+    personalTaxes,
+    federalTax,
+    provincialTax,
+
+    personalCPP: cpp.employeePaid,
+    employerCPP: cpp.employerPaid,
+    personalEI: ei.employeePaid,
+    employerEI: ei.employerPaid,
+    personalCash: salary + dividends + otherIncome - personalTaxes - cpp.employeePaid - ei.employeePaid,
+  };
+}
+
+export function calculateHousehold(input: HouseholdInput, scenario: Scenario): HouseholdResult {
+  const { family, ...params } = input;
+  const province = params.province ?? "BC";
+  const rules = applyPassiveGrind(
+    resolveTaxRules(province, params.taxYear, params.inflationRate),
+    params.priorYearInvestmentIncome
+  );
+  const warnings: string[] = [];
+
+  // 1) Family salaries are business expenses (plus the employer's CPP and EI)
+  const familySalaries = family.reduce((sum, m) => {
+    const salary = pos(m.salary);
+    return sum + salary + cppForEmployeeSalary(salary, rules.cpp).employerPaid + memberEI(m, rules).employerPaid;
+  }, 0);
+
+  const owner = scenario === "UNINCORPORATED"
+    ? calculateScenario({ ...params, businessIncome: params.businessIncome - familySalaries }, scenario)
+    : calculateScenario({ ...params, otherExpenses: (params.otherExpenses ?? 0) + familySalaries }, scenario);
+
+  // 2) Family dividends come out of what the corp keeps (none when unincorporated)
+  const requested = family.reduce((sum, m) => sum + pos(m.dividends), 0);
+  let share = 1;
+  if (scenario === "UNINCORPORATED") {
+    if (requested > 0) warnings.push("Dividends need a corporation — family dividends ignored when unincorporated");
+    share = 0;
+  } else if (requested > Math.max(0, owner.corporateCash)) {
+    warnings.push("Family dividends exceed the corporation's cash — paid pro rata");
+    share = requested > 0 ? Math.max(0, owner.corporateCash) / requested : 0;
+  }
+
+  const members = family.map((m) => {
+    const [, why] = tosiApplies(m);
+    if (why && pos(m.dividends) > 0) warnings.push(why);
+    return computeMemberTax({ ...m, dividends: pos(m.dividends) * share }, rules);
+  });
+  const familyDividends = members.reduce((sum, m) => sum + m.dividends, 0);
+
+  const refund = computeDividendRefund(
+    { eligible: owner.rdtohEligible, nonEligible: owner.rdtohNonEligible },
+    0,
+    familyDividends
+  );
+  const familyDividendRefund = refund.refund;
+
+  // 3) Household totals
+  const sum = (f: (m: MemberResult) => number) => members.reduce((s, m) => s + f(m), 0);
+
+  const householdPersonalCash = owner.personalCash + sum((m) => m.personalCash);
+  const corporateCash = owner.corporateCash - familyDividends + familyDividendRefund;
+  const householdTotalTaxes = owner.totalTaxes - familyDividendRefund + sum((m) => m.personalTaxes);
+  const householdTotalCPP = owner.totalCPP + sum((m) => m.personalCPP + m.employerCPP);
+  const householdTotalEI = owner.totalEI + sum((m) => m.personalEI + m.employerEI);
+
+  return {
+    scenario,
+    owner,
+    members,
+
+    familySalaries,
+    familyDividends,
+    familyDividendRefund,
+
+    householdPersonalCash,
+    corporateCash,
+    householdTotalTaxes,
+    householdTotalCPP,
+    householdTotalEI,
+    householdTotalCash: householdPersonalCash + corporateCash + owner.pensionContribution + owner.rrspSaved,
+
+    warnings,
+  };
+}
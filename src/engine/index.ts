@@ -0,0 +1,94 @@
+// src/engine/index.ts
+
+/**
+ * Engine entry point — a barrel only: every scenario behind `calculateScenario`
+ * (scenarios.ts) and the analysis modules built on it.
+ * Rates come from the tax-year registry (taxYears.ts → jurisdictions.ts / taxTables_*),
+ * so a rate change is made there and nowhere else.
+ */
+
+export { SCENARIOS, calculateAllScenarios, calculateScenario } from "./scenarios";
+export { calculateUnincorporated } from "./calcUnincorporated";
+export { calculateIncorporatedSalary } from "./calcSalary";
+export { calculateIncorporatedDividends } from "./calcDividends";
+export { calculateIncorporatedMixed } from "./calcMixed";
+export { recommendScenario, type Recommendation } from "./recommend";
+export {
+  calculateHousehold,
+  computeMemberTax,
+  tosiApplies,
+  type FamilyMember,
+  type FamilyRelation,
+  type HouseholdInput,
+  type HouseholdResult,
+  type MemberResult,
+  type TosiExemption,
+} from "./household";
+export { AMT_RATE, computeAmt, type AmtResult } from "./amt";
+export { employerHealthTax, payrollCostsFor, worksafePremium, type PayrollCosts } from "./payrollTax";
+export {
+  DEFAULT_OWNER_EI_STATUS,
+  EI_STATUSES,
+  eiForEmployeeSalary,
+  eiForSelfEmployed,
+  type EiStatus,
+} from "./ei";
+export {
+  basicPersonalAmount,
+  computeCredits,
+  creditValues,
+  type CreditItems,
+  type CreditValues,
+  type CreditsResult,
+} from "./credits";
+export { OAS_RECOVERY_RATE, computeOasClawback, oasPensionFor } from "./oas";
+export {
+  IPP_ASSUMPTIONS,
+  computeIpp,
+  definedBenefitLimit,
+  type IppParams,
+  type IppResult,
+} from "./ipp";
+export {
+  projectRetainedEarnings,
+  type ProjectionInput,
+  type ProjectionResult,
+  type ProjectionYear,
+} from "./projection";
+export {
+  INCORPORATED_SCENARIOS,
+  findBreakEven,
+  findBreakEvens,
+  incorporationAdvantage,
+  type BreakEvenBasis,
+  type BreakEvenOptions,
+  type BreakEvenPoint,
+} from "./breakEven";
+export {
+  MARGINAL_STEP,
+  marginalRates,
+  marginalRatesFor,
+  type MarginalRates,
+  type PayoutRate,
+} from "./marginal";
+export {
+  DEFAULT_SWEEP,
+  SWEEP_METRICS,
+  sweepBusinessIncome,
+  sweepIncomes,
+  sweepPoint,
+  type SweepMetric,
+  type SweepPoint,
+} from "./sweep";
+export type { CalcInput, CalcParams, MixObjective, PersonalProfile, Scenario, ScenarioOutput } from "./type";
+export type { ProvinceCode } from "./jurisdictions";
+export type { InvestmentIncome, RdtohBalances } from "./investmentIncome";
+export { JURISDICTIONS, PROVINCES } from "./jurisdictions";
+export {
+  DEFAULT_INFLATION_RATE,
+  DEFAULT_TAX_YEAR,
+  LATEST_PUBLISHED_YEAR,
+  PUBLISHED_YEARS,
+  isProjectedYear,
+  resolveTaxRules,
+} from "./taxYears";
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import { calculateIncorporatedDividends } from "./calcDividends";
+import { calculateIncorporatedSalary } from "./calcSalary";
+import {
+  DIVIDEND_REFUND_RATE,
+  PART_IV_RATE,
+  REFUNDABLE_PART_I_RATE,
+  computeDividendRefund,
+  computeInvestmentTaxes,
+} from "./investmentIncome";
+import { resolveTaxRules } from "./taxYears";
+
+const BC = resolveTaxRules("BC", 2025);
+
+describe("computeInvestmentTaxes", () => {
+  const r = computeInvestmentTaxes(
+    { interest: 10_000, foreignIncome: 5_000, capitalGains: 20_000, canadianDividends: 12_000 },
+    BC
+  );
+
+  it("taxes interest, foreign income and half of gains under Part I", () => {
+    expect(r.aggregateInvestmentIncome).toBe(25_000);
+    expect(r.partITax).toBeCloseTo(25_000 * (0.38 - 0.1 + 0.32 / 3 + 0.12), 6); // 50.67% in BC
+  });
+
+  it("charges Part IV on portfolio dividends", () => {
+    expect(r.partIVTax).toBeCloseTo(12_000 * PART_IV_RATE, 6); // 4,600
+    expect(r.partIVTax).toBeCloseTo(4_600, 6);
+  });
+
+  it("adds 30⅔% of AII to non-eligible RDTOH and Part IV to eligible RDTOH", () => {
+    expect(r.rdtoh.nonEligible).toBeCloseTo(25_000 * REFUNDABLE_PART_I_RATE, 6);
+    expect(r.rdtoh.eligible).toBeCloseTo(r.partIVTax, 6);
+  });
+
+  it("keeps gross income = after-tax pools + taxes", () => {
+    expect(r.afterTaxCash.nonEligible + r.afterTaxCash.eligible + r.afterTaxCash.capital + r.investmentTaxes)
+      .toBeCloseTo(r.grossIncome, 6);
+  });
+});
+
+describe("computeDividendRefund", () => {
+  const rdtoh = { eligible: 3_000, nonEligible: 5_000 };
+
+  it("refunds eligible dividends from eligible RDTOH only", () => {
+    const r = computeDividendRefund(rdtoh, 100_000, 0);
+    expect(r.refund).toBe(3_000);
+    expect(r.closing).toEqual({ eligible: 0, nonEligible: 5_000 });
+  });
+
+  it("refunds non-eligible dividends from NERDTOH first, then ERDTOH", () => {
+    const r = computeDividendRefund(rdtoh, 0, 15_000);
+    expect(r.fromNonEligible).toBe(5_000);
+    expect(r.fromEligible).toBeCloseTo(15_000 * DIVIDEND_REFUND_RATE - 5_000, 6);
+  });
+
+  it("is limited to 38⅓% of dividends paid", () => {
+    const r = computeDividendRefund(rdtoh, 0, 6_000);
+    expect(r.refund).toBeCloseTo(2_300, 6);
+    expect(r.closing.nonEligible).toBeCloseTo(2_700, 6);
+  });
+});
+
+describe("scenarios with corporate investment income", () => {
+  const base = {
+    businessIncome: 200_000,
+    personalCashNeeded: 120_000,
+    province: "BC" as const,
+    taxYear: 2025,
+    investmentIncome: { interest: 40_000, canadianDividends: 20_000 },
+  };
+
+  it("pays a dividend refund when dividends go out", () => {
+    const r = calculateIncorporatedDividends(base);
+    expect(r.dividendRefund).toBeGreaterThan(0);
+    expect(r.corporateTaxes).toBeCloseTo(
+      200_000 * 0.11 + r.investmentTaxes - r.dividendRefund,
+      6
+    );
+    expect(r.totalCash).toBeCloseTo(r.personalCash + r.corporateCash, 6);
+  });
+
+  it("builds RDTOH without a refund when only salary is paid", () => {
+    const r = calculateIncorporatedSalary(base);
+    const inv = computeInvestmentTaxes(base.investmentIncome, BC);
+    expect(r.dividendRefund).toBe(0);
+    expect(r.rdtohEligible + r.rdtohNonEligible).toBeCloseTo(inv.rdtoh.eligible + inv.rdtoh.nonEligible, 6);
+  });
+});
+
+describe("capital dividend account", () => {
+  it("adds the non-taxable half of gains to the CDA", () => {
+    const r = computeInvestmentTaxes({ capitalGains: 40_000 }, BC, undefined, 5_000);
+    expect(r.cda).toBe(25_000);
+    expect(r.afterTaxCash.capital).toBe(20_000);
+  });
+
+  it("pays capital dividends before taxable dividends, tax-free", () => {
+    const base = { businessIncome: 150_000, personalCashNeeded: 80_000, province: "BC" as const, taxYear: 2025 };
+    const plain = calculateIncorporatedDividends(base);
+    const withCda = calculateIncorporatedDividends({ ...base, openingCda: 30_000 });
+
+    expect(withCda.capitalDividends).toBe(30_000);
+    expect(withCda.cdaBalance).toBe(0);
+    expect(withCda.personalCash).toBeCloseTo(80_000, 0);
+    expect(withCda.personalTaxes).toBeLessThan(plain.personalTaxes);
+    expect(withCda.eligibleDividends + withCda.nonEligibleDividends)
+      .toBeLessThan(plain.eligibleDividends + plain.nonEligibleDividends - 30_000 + 1);
+  });
+
+  it("leaves unused CDA for later years", () => {
+    const r = calculateIncorporatedDividends({
+      businessIncome: 150_000,
+      personalCashNeeded: 10_000,
+      province: "BC",
+      taxYear: 2025,
+      openingCda: 30_000,
+    });
+    expect(r.capitalDividends).toBe(10_000);
+    expect(r.cdaBalance).toBe(20_000);
+    expect(r.personalTaxes).toBe(0);
+  });
+});
@@ -0,0 +1,128 @@
+// src/engine/investmentIncome.ts
+import { investmentIncomeRate } from "./corporateTax";
+import type { TaxRules } from "./taxYears";
+
+/**
+ * Corporate investment income — CCPC refundable tax system
+ * - Part I: interest, foreign income and the taxable half of capital gains (aggregate
+ *   investment income) are taxed at the full investment rate; 30⅔% of it is refundable
+ *   and goes to non-eligible RDTOH.
+ * - Part IV: Canadian portfolio dividends are deductible for Part I but pay 38⅓%
+ *   Part IV tax, which goes to eligible RDTOH.
+ * - Dividend refund: 38⅓% of taxable dividends paid. Eligible dividends draw on eligible
+ *   RDTOH only; non-eligible dividends draw on non-eligible RDTOH first, then eligible.
+ * - Pools: after-tax investment income can go out as NON-eligible dividends; portfolio
+ *   dividends (net of Part IV) keep their eligible character (GRIP).
+ * - Capital dividend account (CDA): the non-taxable half of capital gains adds to the CDA
+ *   and can be paid out as a tax-free capital dividend. An opening CDA balance is assumed
+ *   to be backed by retained earnings already in the corp.
+ * - Simplifications: no foreign tax credit (foreign income is taken gross), refunds land
+ *   in corporate cash and don't fund extra dividends in the same year.
+ */
+
+export type InvestmentIncome = {
+  interest?: number;
+  foreignIncome?: number;
+  capitalGains?: number;      // realized gains (half taxable)
+  canadianDividends?: number; // eligible portfolio dividends from public Canadian corps
+};
+
+export type RdtohBalances = { eligible: number; nonEligible: number };
+
+export const CAPITAL_GAINS_INCLUSION = 0.5;
+export const REFUNDABLE_PART_I_RATE  = 0.30 + 0.02 / 3; // 30⅔% of aggregate investment income
+export const PART_IV_RATE            = 0.38 + 0.01 / 3; // 38⅓% of portfolio dividends
+export const DIVIDEND_REFUND_RATE    = 0.38 + 0.01 / 3; // 38⅓% of taxable dividends paid
+
+export const NO_RDTOH: RdtohBalances = { eligible: 0, nonEligible: 0 };
+
+export type InvestmentTaxResult = {
+  grossIncome: number;                // all investment cash received
+  aggregateInvestmentIncome: number;  // Part I base (interest + foreign + taxable gains)
+
+  partITax: number;
+  partIVTax: number;
+  investmentTaxes: number;            // Part I + Part IV, before dividend refunds
+
+  rdtoh: RdtohBalances;               // opening + this year's additions, before refunds
+  cda: number;                        // opening + this year's additions, before capital dividends
+  afterTaxCash: { nonEligible: number; eligible: number; capital: number };
+};
+
+export type DividendRefundResult = {
+  refund: number;
+  fromEligible: number;
+  fromNonEligible: number;
+  closing: RdtohBalances;
+};
+
+const pos = (n?: number) => Math.max(0, n ?? 0);
+
+export function computeInvestmentTaxes(
+  income: InvestmentIncome | undefined,
+  rules: TaxRules,
+  opening: RdtohBalances = NO_RDTOH,
+  openingCda = 0
+): InvestmentTaxResult {
+  const interest  = pos(income?.interest);
+  const foreign   = pos(income?.foreignIncome);
+  const gains     = pos(income?.capitalGains);
+  const dividends = pos(income?.canadianDividends);
+
+  const taxableGains    = gains * CAPITAL_GAINS_INCLUSION;
+  const nonTaxableGains = gains - taxableGains;
+  const aggregateInvestmentIncome = interest + foreign + taxableGains;
+
+  const partITax  = aggregateInvestmentIncome * investmentIncomeRate(rules);
+  const partIVTax = dividends * PART_IV_RATE;
+
+  const rdtoh = {
+    eligible:    pos(opening.eligible) + partIVTax,
+    nonEligible: pos(opening.nonEligible) + aggregateInvestmentIncome * REFUNDABLE_PART_I_RATE,
+  };
+
+  return {
+    grossIncome: interest + foreign + gains + dividends,
+    aggregateInvestmentIncome,
+
+    partITax,
+    partIVTax,
+    investmentTaxes: partITax + partIVTax,
+
+    rdtoh,
+    cda: pos(openingCda) + nonTaxableGains,
+    afterTaxCash: {
+      nonEligible: aggregateInvestmentIncome - partITax,
+      eligible: dividends - partIVTax,
+      capital: nonTaxableGains,
+    },
+  };
+}
+
+/** Refund triggered by paying dividends out of a corp holding these RDTOH balances */
+export function computeDividendRefund(
+  rdtoh: RdtohBalances,
+  eligiblePaid: number,
+  nonEligiblePaid: number
+): DividendRefundResult {
+  const fromEligibleOnElig = Math.min(rdtoh.eligible, pos(eligiblePaid) * DIVIDEND_REFUND_RATE);
+
+  const neClaim = pos(nonEligiblePaid) * DIVIDEND_REFUND_RATE;
+  const fromNonEligible = Math.min(rdtoh.nonEligible, neClaim);
+  const fromEligibleOnNonElig = Math.min(
+    rdtoh.eligible - fromEligibleOnElig,
+    neClaim - fromNonEligible
+  );
+
+  const fromEligible = fromEligibleOnElig + fromEligibleOnNonElig;
+
+  return {
+    refund: fromEligible + fromNonEligible,
+    fromEligible,
+    fromNonEligible,
+    closing: {
+      eligible: rdtoh.eligible - fromEligible,
+      nonEligible: rdtoh.nonEligible - fromNonEligible,
+    },
+  };
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { calculateScenario } from "./index";
+import { PA_OFFSET, annualAccrual, computeIpp, definedBenefitLimit, pensionAdjustmentFor } from "./ipp";
+import { resolveTaxRules } from "./taxYears";
+
+const BC = resolveTaxRules("BC", 2025);
+const DB_LIMIT = definedBenefitLimit(2025);
+
+describe("IPP limits", () => {
+  it("uses next year's RRSP dollar limit ÷ 9 as the defined benefit limit", () => {
+    expect(DB_LIMIT).toBeCloseTo(33_810 / 9, 6);
+  });
+
+  it("accrues 2% of salary up to the limit", () => {
+    expect(annualAccrual(100_000, DB_LIMIT)).toBeCloseTo(2_000, 6);
+    expect(annualAccrual(400_000, DB_LIMIT)).toBeCloseTo(DB_LIMIT, 6);
+  });
+
+  it("sets PA = 9 × accrual − $600", () => {
+    expect(pensionAdjustmentFor(100_000, DB_LIMIT)).toBeCloseTo(9 * 2_000 - PA_OFFSET, 6);
+    expect(pensionAdjustmentFor(0, DB_LIMIT)).toBe(0);
+  });
+});
+
+describe("computeIpp", () => {
+  it("costs more per year of service for an older member", () => {
+    const young = computeIpp(120_000, { age: 40, yearsOfService: 0 }, BC, DB_LIMIT);
+    const old = computeIpp(120_000, { age: 60, yearsOfService: 0 }, BC, DB_LIMIT);
+    expect(old.currentServiceCost).toBeGreaterThan(young.currentServiceCost);
+    expect(young.pastServiceCost).toBe(0);
+  });
+
+  it("caps past service at years since 1991 and age 18", () => {
+    expect(computeIpp(120_000, { age: 55, yearsOfService: 50 }, BC, DB_LIMIT).pastServiceYears).toBe(34);
+    expect(computeIpp(120_000, { age: 25, yearsOfService: 20 }, BC, DB_LIMIT).pastServiceYears).toBe(7);
+  });
+
+  it("covers the PSPA with an RRSP transfer and the corp funds the rest", () => {
+    const r = computeIpp(120_000, { age: 55, yearsOfService: 10 }, BC, DB_LIMIT);
+    expect(r.qualifyingTransfer).toBeCloseTo(r.pastServicePensionAdjustment, 6);
+    expect(r.pastServiceContribution).toBeCloseTo(r.pastServiceCost - r.qualifyingTransfer, 6);
+    expect(r.corporateDeduction).toBeCloseTo(r.currentServiceCost + r.pastServiceContribution, 6);
+  });
+
+  it("funds current service first within the funding cap", () => {
+    const full = computeIpp(120_000, { age: 55, yearsOfService: 10 }, BC, DB_LIMIT);
+    const cap = full.currentServiceCost + 1_000;
+    const r = computeIpp(120_000, { age: 55, yearsOfService: 10 }, BC, DB_LIMIT, cap);
+    expect(r.currentServiceCost).toBeCloseTo(full.currentServiceCost, 6);
+    expect(r.pastServiceContribution).toBeCloseTo(1_000, 6);
+    expect(r.unfundedPastService).toBeCloseTo(full.pastServiceContribution - 1_000, 6);
+  });
+});
+
+describe("salary scenario with an IPP", () => {
+  const base = { businessIncome: 250_000, personalCashNeeded: 100_000, province: "BC" as const, taxYear: 2025 };
+  const plain = calculateScenario(base, "INC_SALARY");
+  const r = calculateScenario({ ...base, ipp: { age: 55, yearsOfService: 0 } }, "INC_SALARY");
+
+  it("deducts the pension funding from corporate profit", () => {
+    expect(r.pensionContribution).toBeGreaterThan(0);
+    expect(r.corporateTaxes).toBeLessThan(plain.corporateTaxes);
+    expect(r.totalCash).toBeGreaterThan(plain.totalCash);
+  });
+
+  it("cuts RRSP room by the pension adjustment", () => {
+    expect(r.pensionAdjustment).toBeCloseTo(pensionAdjustmentFor(r.grossSalary, DB_LIMIT), 6);
+    expect(r.rrspRoom).toBeCloseTo(plain.rrspRoom - r.pensionAdjustment, 6);
+  });
+
+  it("never funds more than the corp earned", () => {
+    const past = calculateScenario({ ...base, ipp: { age: 60, yearsOfService: 30 } }, "INC_SALARY");
+    expect(past.pensionContribution).toBeLessThanOrEqual(
+      base.businessIncome - past.grossSalary - past.corporateCPP + 1e-6
+    );
+    expect(past.totalCash).toBeLessThanOrEqual(base.businessIncome);
+  });
+
+  it("leaves the other scenarios alone", () => {
+    const d = calculateScenario({ ...base, ipp: { age: 55, yearsOfService: 10 } }, "INC_DIVIDENDS");
+    expect(d.pensionContribution).toBe(0);
+    expect(d.totalCash).toBeCloseTo(calculateScenario(base, "INC_DIVIDENDS").totalCash, 6);
+  });
+});
@@ -0,0 +1,126 @@
+// src/engine/ipp.ts
+import { getTaxYearTables, type TaxRules } from "./taxYears";
+
+/**
+ * Individual Pension Plan (IPP) — defined benefit plan for an owner-manager on salary
+ * - Benefit: 2% of salary per year of service, capped at the defined benefit limit
+ *   (1/9 of the money purchase limit, i.e. next year's RRSP dollar limit ÷ 9).
+ * - Funding uses the prescribed IPP assumptions (7.5% interest, 5.5% salary growth,
+ *   4% indexing) and projected unit credit: this year's accrual is projected to age 65,
+ *   priced as an indexed pension paid for PAYOUT_YEARS, and discounted back to today.
+ * - Past service (years on T4 since 1991, before the plan) costs the same per year.
+ *   Its PSPA is assumed covered by a qualifying transfer from the owner's RRSP; the
+ *   corporation funds the rest.
+ * - Funding is capped at what the corp has this year (profit after salary and other
+ *   expenses): current service first; any past service left over stays unfunded.
+ * - Pension adjustment (PA) = 9 × this year's accrual − $600; it reduces next year's RRSP room.
+ * - Every corporate contribution (current + past service) is deductible to the corporation.
+ */
+
+export type IppParams = {
+  age: number;
+  yearsOfService: number; // past years on salary with the corp (before this one)
+};
+
+export const IPP_ASSUMPTIONS = {
+  INTEREST: 0.075,
+  SALARY_GROWTH: 0.055,
+  INDEXATION: 0.04,
+  RETIREMENT_AGE: 65,
+  PAYOUT_YEARS: 22,
+} as const;
+
+export const BENEFIT_RATE = 0.02;
+export const PA_OFFSET = 600;
+const FIRST_PAST_SERVICE_YEAR = 1991;
+
+export type IppResult = {
+  definedBenefitLimit: number;
+  annualAccrual: number;           // pension earned this year (today's dollars)
+  currentServiceCost: number;
+
+  pastServiceYears: number;
+  pastServiceCost: number;
+  pastServicePensionAdjustment: number; // PSPA
+  qualifyingTransfer: number;           // moved from the RRSP to cover the PSPA
+  pastServiceContribution: number;      // funded by the corp this year
+  unfundedPastService: number;          // past service cost the corp couldn't fund
+
+  pensionAdjustment: number;
+  corporateDeduction: number;           // current service + corp-funded past service
+};
+
+/** Defined benefit limit for a tax year: next year's RRSP dollar limit ÷ 9 */
+export function definedBenefitLimit(taxYear: number, inflationRate?: number) {
+  return getTaxYearTables(taxYear + 1, inflationRate).rrsp.MAX / 9;
+}
+
+/** Pension earned for one year of service at this salary */
+export function annualAccrual(salary: number, dbLimit: number) {
+  return Math.min(BENEFIT_RATE * Math.max(0, salary), dbLimit);
+}
+
+export function pensionAdjustmentFor(salary: number, dbLimit: number) {
+  const accrual = annualAccrual(salary, dbLimit);
+  return accrual > 0 ? Math.max(0, 9 * accrual - PA_OFFSET) : 0;
+}
+
+/** Present value at retirement of $1/year of indexed pension, paid at the start of each year */
+function annuityFactor() {
+  const { INTEREST, INDEXATION, PAYOUT_YEARS } = IPP_ASSUMPTIONS;
+  const v = (1 + INDEXATION) / (1 + INTEREST);
+  let factor = 0;
+  for (let t = 0; t < PAYOUT_YEARS; t++) factor += Math.pow(v, t);
+  return factor;
+}
+
+/** Cost today of one year of service at this salary */
+function costPerYearOfService(salary: number, age: number, dbLimit: number) {
+  const { INTEREST, SALARY_GROWTH, INDEXATION, RETIREMENT_AGE } = IPP_ASSUMPTIONS;
+  const n = Math.max(0, RETIREMENT_AGE - age);
+
+  const projected = Math.min(
+    BENEFIT_RATE * Math.max(0, salary) * Math.pow(1 + SALARY_GROWTH, n),
+    dbLimit * Math.pow(1 + INDEXATION, n)
+  );
+  return (projected * annuityFactor()) / Math.pow(1 + INTEREST, n);
+}
+
+export function computeIpp(
+  salary: number,
+  ipp: IppParams,
+  rules: TaxRules,
+  dbLimit: number,
+  fundingCap = Infinity
+): IppResult {
+  const age = Math.max(18, ipp.age);
+
+  const accrual = annualAccrual(salary, dbLimit);
+  const cap = Math.max(0, fundingCap);
+  const currentServiceCost = Math.min(cap, accrual > 0 ? costPerYearOfService(salary, age, dbLimit) : 0);
+
+  const pastServiceYears = Math.max(
+    0,
+    Math.min(Math.floor(ipp.yearsOfService), age - 18, rules.year - FIRST_PAST_SERVICE_YEAR)
+  );
+  const pastServiceCost = pastServiceYears * (accrual > 0 ? costPerYearOfService(salary, age, dbLimit) : 0);
+  const pastServicePensionAdjustment = pastServiceYears * pensionAdjustmentFor(salary, dbLimit);
+  const qualifyingTransfer = Math.min(pastServicePensionAdjustment, pastServiceCost);
+  const pastServiceContribution = Math.min(pastServiceCost - qualifyingTransfer, cap - currentServiceCost);
+
+  return {
+    definedBenefitLimit: dbLimit,
+    annualAccrual: accrual,
+    currentServiceCost,
+
+    pastServiceYears,
+    pastServiceCost,
+    pastServicePensionAdjustment,
+    qualifyingTransfer,
+    pastServiceContribution,
+    unfundedPastService: pastServiceCost - qualifyingTransfer - pastServiceContribution,
+
+    pensionAdjustment: pensionAdjustmentFor(salary, dbLimit),
+    corporateDeduction: currentServiceCost + pastServiceContribution,
+  };
+}
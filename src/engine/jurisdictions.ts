@@ -0,0 +1,201 @@
+// src/engine/jurisdictions.ts
+import { BC_BRACKETS, FED_BRACKETS, DIVIDENDS_2025 } from "./taxTables_2025_BC";
+
+/**
+ * Jurisdiction registry (2025)
+ * - One entry per supported province, plus the federal layer every province sits on.
+ * - Scope: BC, Alberta, Saskatchewan, Manitoba and Ontario only. Quebec (separate provincial
+ *   return, federal abatement, QPP/QPIP), the Atlantic provinces and the territories are
+ *   not covered; the Dashboard says so under its province selector.
+ * - Personal: brackets, BPA, credit rate (rate non-refundable credits are taken at),
+ *   dividend tax credit rates (as a % of the grossed-up amount), optional surtax and health premium,
+ *   other non-refundable credit amounts (see credits.ts).
+ * - Corporate: provincial small-business limit and rates only — federal rates are added on top.
+ * - Payroll (BC only for now): employer health tax and the workers' comp earnings cap (see payrollTax.ts).
+ * - To support another province: add its code to ProvinceCode and an entry to JURISDICTIONS.
+ */
+
+export type ProvinceCode = "BC" | "AB" | "SK" | "MB" | "ON";
+
+export type Brackets = Array<[number, number]>;
+
+export type CorporateRates = {
+  smallBusinessLimit: number; // income eligible for the small-business rate
+  smallBusinessRate: number;  // rate on income up to the limit
+  generalRate: number;        // rate on income above the limit
+  followsPassiveGrind?: boolean; // false if the province doesn't apply the federal passive-income grind
+};
+
+/** Non-refundable credit amounts beyond the BPA (taken at the jurisdiction's credit rate) */
+export type CreditTable = {
+  bpaMin?: number;            // BPA phases down to this between the 4th and 5th brackets (federal)
+  canadaEmployment?: number;  // on employment income (federal)
+  age: { amount: number; threshold: number }; // 65+, less 15% of net income over the threshold
+  pension: number;            // max pension income amount
+  disability: number;
+  tuition: boolean;           // false where the province has eliminated its tuition credit
+  /** Low-income tax reduction (BC): max, less rate × net income over the threshold */
+  taxReduction?: { max: number; threshold: number; rate: number };
+};
+
+/** Employer payroll costs on top of CPP/EI */
+export type PayrollTaxTable = {
+  /** Employer health tax on annual remuneration: none up to the exemption, then the notch rate
+   *  on the excess until that catches up with the full rate on all of it */
+  healthTax: { exemption: number; notchRate: number; rate: number };
+  maxAssessableEarnings: number; // workers' comp premiums are charged up to this per worker
+};
+
+/** Piecewise premium tier: base + rate × (income − over), capped at max. */
+export type HealthPremiumTier = { over: number; base: number; rate: number; max: number };
+
+export type Jurisdiction = {
+  code: ProvinceCode | "FED";
+  name: string;
+
+  brackets: Brackets;
+  bpa: number;
+  creditRate: number;
+
+  dtcRate: { eligible: number; nonEligible: number };
+
+  /** Surtax on basic tax (after credits): [threshold, rate] pairs, each on tax above its threshold */
+  surtax?: Array<[number, number]>;
+  /** Health premium charged through the return, keyed on taxable income */
+  healthPremium?: HealthPremiumTier[];
+  credits: CreditTable;
+
+  corporate: CorporateRates;
+  payroll?: PayrollTaxTable;
+};
+
+// ===== Federal (applies in every province) =====
+export const FEDERAL: Jurisdiction = {
+  code: "FED",
+  name: "Federal",
+  brackets: FED_BRACKETS,
+  bpa: 16_129,
+  creditRate: 0.145, // blended lowest rate for 2025
+  dtcRate: DIVIDENDS_2025.FED_DTC_RATE,
+  credits: {
+    bpaMin: 14_538,
+    canadaEmployment: 1_471,
+    age: { amount: 9_028, threshold: 45_522 },
+    pension: 2_000,
+    disability: 10_138,
+    tuition: true,
+  },
+  corporate: { smallBusinessLimit: 500_000, smallBusinessRate: 0.09, generalRate: 0.15 },
+};
+
+// ===== Provinces =====
+export const JURISDICTIONS: Record<ProvinceCode, Jurisdiction> = {
+  BC: {
+    code: "BC",
+    name: "British Columbia",
+    brackets: BC_BRACKETS,
+    bpa: 12_932,
+    creditRate: 0.0506,
+    dtcRate: DIVIDENDS_2025.BC_DTC_RATE,
+    credits: {
+      age: { amount: 5_799, threshold: 43_169 },
+      pension: 1_000,
+      disability: 9_699,
+      tuition: false,
+      taxReduction: { max: 562, threshold: 25_020, rate: 0.0356 },
+    },
+    corporate: { smallBusinessLimit: 500_000, smallBusinessRate: 0.02, generalRate: 0.12 },
+    payroll: {
+      healthTax: { exemption: 1_000_000, notchRate: 0.0585, rate: 0.0195 },
+      maxAssessableEarnings: 121_500, // WorkSafeBC
+    },
+  },
+
+  AB: {
+    code: "AB",
+    name: "Alberta",
+    brackets: [
+      [60_000, 0.08],
+      [151_234, 0.10],
+      [181_481, 0.12],
+      [241_974, 0.13],
+      [362_961, 0.14],
+      [Number.POSITIVE_INFINITY, 0.15],
+    ],
+    bpa: 22_323,
+    creditRate: 0.08,
+    dtcRate: { eligible: 0.0812, nonEligible: 0.0218 },
+    credits: { age: { amount: 6_221, threshold: 46_308 }, pension: 1_719, disability: 16_748, tuition: false },
+    corporate: { smallBusinessLimit: 500_000, smallBusinessRate: 0.02, generalRate: 0.08 },
+  },
+
+  SK: {
+    code: "SK",
+    name: "Saskatchewan",
+    brackets: [
+      [53_463, 0.105],
+      [152_750, 0.125],
+      [Number.POSITIVE_INFINITY, 0.145],
+    ],
+    bpa: 19_491,
+    creditRate: 0.105,
+    dtcRate: { eligible: 0.11, nonEligible: 0.02938 },
+    credits: { age: { amount: 5_616, threshold: 41_790 }, pension: 1_000, disability: 10_405, tuition: false },
+    // SK small-business limit is $600k; the federal limit stays $500k
+    corporate: { smallBusinessLimit: 600_000, smallBusinessRate: 0.01, generalRate: 0.12 },
+  },
+
+  MB: {
+    code: "MB",
+    name: "Manitoba",
+    brackets: [
+      [47_000, 0.108],
+      [100_000, 0.1275],
+      [Number.POSITIVE_INFINITY, 0.174],
+    ],
+    bpa: 15_780,
+    creditRate: 0.108,
+    dtcRate: { eligible: 0.08, nonEligible: 0.007835 },
+    credits: { age: { amount: 3_728, threshold: 27_749 }, pension: 1_000, disability: 6_180, tuition: false },
+    corporate: { smallBusinessLimit: 500_000, smallBusinessRate: 0.0, generalRate: 0.12 },
+  },
+
+  ON: {
+    code: "ON",
+    name: "Ontario",
+    brackets: [
+      [52_886, 0.0505],
+      [105_775, 0.0915],
+      [150_000, 0.1116],
+      [220_000, 0.1216],
+      [Number.POSITIVE_INFINITY, 0.1316],
+    ],
+    bpa: 12_747,
+    creditRate: 0.0505,
+    dtcRate: { eligible: 0.10, nonEligible: 0.029863 },
+    credits: { age: { amount: 6_223, threshold: 46_330 }, pension: 1_762, disability: 10_250, tuition: false },
+    // 20% of ON tax over $5,710 plus 36% of ON tax over $7,307
+    surtax: [
+      [5_710, 0.20],
+      [7_307, 0.36],
+    ],
+    // Ontario Health Premium ($0 – $900)
+    healthPremium: [
+      { over: 20_000, base: 0, rate: 0.06, max: 300 },
+      { over: 36_000, base: 300, rate: 0.06, max: 450 },
+      { over: 48_000, base: 450, rate: 0.25, max: 600 },
+      { over: 72_000, base: 600, rate: 0.25, max: 750 },
+      { over: 200_000, base: 750, rate: 0.25, max: 900 },
+    ],
+    // Ontario doesn't follow the federal passive-income grind of its limit
+    corporate: { smallBusinessLimit: 500_000, smallBusinessRate: 0.032, generalRate: 0.115, followsPassiveGrind: false },
+  },
+};
+
+export const PROVINCES = Object.keys(JURISDICTIONS) as ProvinceCode[];
+
+export function getJurisdiction(code: ProvinceCode): Jurisdiction {
+  const j = JURISDICTIONS[code];
+  if (!j) throw new Error(`Unsupported province: ${code}`);
+  return j;
+}
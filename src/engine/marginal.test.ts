@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { calculateScenario } from "./index";
+import { combinedCorporateRates } from "./corporateTax";
+import { marginalRates, marginalRatesFor } from "./marginal";
+import { resolveTaxRules } from "./taxYears";
+
+describe("marginalRatesFor", () => {
+  const params = { businessIncome: 150_000, personalCashNeeded: 60_000, province: "BC" as const, taxYear: 2025 };
+  const corp = combinedCorporateRates(resolveTaxRules("BC", 2025));
+
+  it("unincorporated: only the next dollar of business income, rising with income", () => {
+    const low = marginalRatesFor({ ...params, businessIncome: 60_000 }, "UNINCORPORATED");
+    const high = marginalRatesFor({ ...params, businessIncome: 700_000 }, "UNINCORPORATED");
+    expect(high.businessIncome).toBeGreaterThan(low.businessIncome);
+    expect(high.businessIncome).toBeLessThan(0.6);
+    expect(low.salary).toBeNull();
+    expect(low.retainedCorporate).toBeNull();
+  });
+
+  it("matches a finite difference of the scenario's tax + CPP + EI", () => {
+    const m = marginalRatesFor(params, "INC_DIVIDENDS");
+    const base = calculateScenario(params, "INC_DIVIDENDS");
+    const next = calculateScenario({ ...params, businessIncome: 151_000 }, "INC_DIVIDENDS");
+    expect(m.businessIncome).toBeCloseTo((next.totalTaxes - base.totalTaxes) / 1_000, 6);
+  });
+
+  it("retained income is taxed at the small-business rate, then the general rate", () => {
+    expect(marginalRatesFor(params, "INC_DIVIDENDS").retainedCorporate).toBeCloseTo(corp.sbd_combined, 6);
+    const big = marginalRatesFor({ ...params, businessIncome: 700_000 }, "INC_DIVIDENDS");
+    expect(big.retainedCorporate).toBeCloseTo(corp.gen_combined, 6);
+  });
+
+  it("stacks corporate tax on the personal rate for dividends", () => {
+    const m = marginalRatesFor(params, "INC_SALARY");
+    const ne = m.nonEligibleDividend!;
+    const el = m.eligibleDividend!;
+    expect(ne.combined).toBeCloseTo(1 - (1 - corp.sbd_combined) * (1 - ne.personal), 9);
+    expect(el.combined).toBeCloseTo(1 - (1 - corp.gen_combined) * (1 - el.personal), 9);
+    expect(ne.personal).toBeGreaterThan(el.personal);
+  });
+
+  it("salary: personal tax + CPP on top of the scenario's salary, no corporate tax", () => {
+    const m = marginalRatesFor(params, "INC_SALARY");
+    expect(m.salary!.personal).toBeGreaterThan(0.25);
+    expect(m.salary!.combined).toBeGreaterThan(m.salary!.personal);
+    expect(m.salary!.combined).toBeLessThan(0.5);
+  });
+});
+
+describe("marginalRates", () => {
+  it("covers every scenario", () => {
+    const params = { businessIncome: 120_000, personalCashNeeded: 70_000, province: "ON" as const, taxYear: 2025 };
+    expect(marginalRates(params).map((m) => m.scenario)).toEqual([
+      "UNINCORPORATED",
+      "INC_SALARY",
+      "INC_DIVIDENDS",
+      "INC_MIXED",
+    ]);
+  });
+});
@@ -0,0 +1,152 @@
+// src/engine/marginal.ts
+import { SCENARIOS, calculateScenario } from "./scenarios";
+import { applyPassiveGrind, combinedCorporateRates, computeCorporateTaxes } from "./corporateTax";
+import { cppForEmployeeSalary } from "./cppHelpers";
+import { DEFAULT_OWNER_EI_STATUS, eiForEmployeeSalary } from "./ei";
+import { payrollCostsFor } from "./payrollTax";
+import { computePersonalTax, grossUpDividends, type PersonalTaxInput } from "./personalTax";
+import { resolveTaxRules, type TaxRules } from "./taxYears";
+import type { CalcParams, Scenario, ScenarioOutput } from "./type";
+
+/**
+ * Marginal rates — what the NEXT $1,000 costs, by finite differences at the current inputs
+ * - businessIncome: the whole scenario re-run with $1,000 more business income (cash needed
+ *   unchanged, so incorporated scenarios retain it): Δ(tax + CPP + EI + payroll taxes) / Δ.
+ * - For the incorporated scenarios, on top of the owner's return as the scenario left it:
+ *   * salary: $1,000 of pre-tax corporate income spent on salary + employer CPP/EI (and
+ *     payroll taxes where the scenario charges them); no corporate tax (deductible).
+ *   * eligibleDividend / nonEligibleDividend: $1,000 of profit taxed at the general /
+ *     small-business rate (the pool each class comes from), the rest paid out.
+ *   * retainedCorporate: corporate tax on $1,000 more active business profit, kept in the corp.
+ * - Each payout also has its personal-only rate (tax + EE CPP/EI per $1 received).
+ * - The RRSP deduction is held fixed; RDTOH refunds aren't counted.
+ * - Rates can be negative (e.g. eligible dividends at low income, where the DTC exceeds the tax).
+ */
+
+export const MARGINAL_STEP = 1_000;
+
+export type PayoutRate = {
+  combined: number;   // share of the pre-tax corporate dollar lost (corporate + personal)
+  personal: number;   // share of the dollar received lost on the owner's return
+};
+
+export type MarginalRates = {
+  scenario: Scenario;
+  businessIncome: number;
+  salary: PayoutRate | null;              // null: not incorporated
+  eligibleDividend: PayoutRate | null;
+  nonEligibleDividend: PayoutRate | null;
+  retainedCorporate: number | null;
+};
+
+type Bump = { salary?: number; eligible?: number; nonEligible?: number };
+
+const burdenOf = (r: ScenarioOutput) =>
+  r.totalTaxes + r.totalCPP + r.totalEI + r.employerHealthTax + r.worksafePremium;
+
+/** Active business profit the scenario's corporate tax was charged on */
+function activeProfit(params: CalcParams, r: ScenarioOutput) {
+  const payroll = r.grossSalary + r.corporateCPP + r.corporateEI + r.employerHealthTax + r.worksafePremium;
+  return Math.max(0, params.businessIncome - (params.otherExpenses ?? 0) - payroll - r.pensionContribution);
+}
+
+/**
+ * The owner's return with extra salary / dividends on top of the scenario's
+ * (personal tax, EE CPP, EE EI, and the employer side of CPP/EI and payroll taxes)
+ */
+function ownerCosts(params: CalcParams, r: ScenarioOutput, rules: TaxRules, bump: Bump = {}) {
+  const extraSalary = bump.salary ?? 0;
+  const salary = r.grossSalary + extraSalary;
+  const cppBase = cppForEmployeeSalary(r.grossSalary, rules.cpp);
+  const cpp = cppForEmployeeSalary(salary, rules.cpp);
+  const ei = eiForEmployeeSalary(salary, params.eiStatus ?? DEFAULT_OWNER_EI_STATUS, rules.ei);
+  const payroll = r.scenario === "INC_SALARY" || r.scenario === "INC_MIXED"
+    ? payrollCostsFor(salary, rules, params.worksafeRate).total
+    : 0;
+
+  const grossed = grossUpDividends(
+    r.eligibleDividends + (bump.eligible ?? 0),
+    r.nonEligibleDividends + (bump.nonEligible ?? 0)
+  );
+  const baseGrossed = grossUpDividends(r.eligibleDividends, r.nonEligibleDividends);
+
+  const taxInput: PersonalTaxInput = {
+    taxableIncome:
+      r.taxableIncome +
+      extraSalary - (cpp.personalDeduction - cppBase.personalDeduction) +
+      (grossed.total - baseGrossed.total),
+    creditAmounts: cpp.credits.baseEE,
+    employmentIncome: salary,
+    eiPremiums: ei.employeePaid,
+    eligibleGrossedUp: grossed.eligible,
+    nonEligibleGrossedUp: grossed.nonEligible,
+    profile: params,
+  };
+
+  return {
+    personal: computePersonalTax(taxInput, rules).personalTax + cpp.employeePaid + ei.employeePaid,
+    employer: cpp.employerPaid + ei.employerPaid + payroll,
+  };
+}
+
+export function marginalRatesFor(
+  params: CalcParams,
+  scenario: Scenario,
+  base: ScenarioOutput = calculateScenario(params, scenario)
+): MarginalRates {
+  const step = MARGINAL_STEP;
+  const next = calculateScenario({ ...params, businessIncome: params.businessIncome + step }, scenario);
+  const businessIncome = (burdenOf(next) - burdenOf(base)) / step;
+
+  if (scenario === "UNINCORPORATED") {
+    return {
+      scenario,
+      businessIncome,
+      salary: null,
+      eligibleDividend: null,
+      nonEligibleDividend: null,
+      retainedCorporate: null,
+    };
+  }
+
+  const rules = applyPassiveGrind(
+    resolveTaxRules(params.province ?? "BC", params.taxYear, params.inflationRate),
+    params.priorYearInvestmentIncome
+  );
+  const owner = ownerCosts(params, base, rules);
+  const corp = combinedCorporateRates(rules);
+
+  // Salary: the corp spends salary + employer costs, the owner keeps salary − their costs
+  const bySalary = ownerCosts(params, base, rules, { salary: step });
+  const salaryPersonal = bySalary.personal - owner.personal;
+  const salaryCorpCost = step + bySalary.employer - owner.employer;
+
+  const dividend = (bump: Bump, corpRate: number): PayoutRate => {
+    const personal = (ownerCosts(params, base, rules, bump).personal - owner.personal) / step;
+    return { combined: 1 - (1 - corpRate) * (1 - personal), personal };
+  };
+
+  const profit = activeProfit(params, base);
+  const retainedCorporate =
+    (computeCorporateTaxes(profit + step, rules).corporateTaxes - computeCorporateTaxes(profit, rules).corporateTaxes) / step;
+
+  return {
+    scenario,
+    businessIncome,
+    salary: {
+      combined: 1 - (step - salaryPersonal) / salaryCorpCost,
+      personal: salaryPersonal / step,
+    },
+    eligibleDividend: dividend({ eligible: step }, corp.gen_combined),
+    nonEligibleDividend: dividend({ nonEligible: step }, corp.sbd_combined),
+    retainedCorporate,
+  };
+}
+
+/** Every scenario (pass the results already on screen to skip re-running them) */
+export function marginalRates(
+  params: CalcParams,
+  results?: Record<Scenario, ScenarioOutput>
+): MarginalRates[] {
+  return SCENARIOS.map((s) => marginalRatesFor(params, s, results?.[s]));
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { SCENARIOS, calculateScenario } from "./index";
+import { OAS_RECOVERY_RATE, computeOasClawback, oasPensionFor } from "./oas";
+import { computePersonalTax } from "./personalTax";
+import { resolveTaxRules } from "./taxYears";
+
+const BC = resolveTaxRules("BC", 2025);
+
+describe("oasPensionFor", () => {
+  it("pays nothing without an age or OAS amount, or before 65", () => {
+    expect(oasPensionFor({}, BC)).toBe(0);
+    expect(oasPensionFor({ age: 64 }, BC)).toBe(0);
+  });
+
+  it("pays the full pension from 65, 10% more from 75, unless given", () => {
+    expect(oasPensionFor({ age: 65 }, BC)).toBe(BC.oas.MAX);
+    expect(oasPensionFor({ age: 80 }, BC)).toBeCloseTo(BC.oas.MAX * 1.1, 6);
+    expect(oasPensionFor({ age: 70, oasPension: 5_000 }, BC)).toBe(5_000);
+  });
+});
+
+describe("computeOasClawback", () => {
+  it("recovers 15% of net income (incl. OAS) over the threshold, capped at the OAS", () => {
+    const income = BC.oas.THRESHOLD + 10_000;
+    expect(computeOasClawback(income, BC, { age: 70 })).toBeCloseTo((10_000 + BC.oas.MAX) * OAS_RECOVERY_RATE, 6);
+    expect(computeOasClawback(300_000, BC, { age: 70 })).toBe(BC.oas.MAX);
+    expect(computeOasClawback(50_000, BC, { age: 70 })).toBe(0);
+    expect(computeOasClawback(300_000, BC)).toBe(0);
+  });
+});
+
+describe("OAS on the return", () => {
+  it("taxes the pension with the draw", () => {
+    const withOas = computePersonalTax({ taxableIncome: 50_000, profile: { oasPension: 8_000 } }, BC);
+    const asIncome = computePersonalTax({ taxableIncome: 58_000 }, BC);
+    expect(withOas.oasClawback).toBe(0);
+    expect(withOas.federalTax).toBeCloseTo(asIncome.federalTax, 6);
+    expect(withOas.provincialTax).toBeCloseTo(asIncome.provincialTax, 6);
+  });
+
+  it("deducts the recovery tax before taxing the rest", () => {
+    const t = computePersonalTax({ taxableIncome: 120_000, profile: { oasPension: 8_000 } }, BC);
+    const clawback = (128_000 - BC.oas.THRESHOLD) * OAS_RECOVERY_RATE;
+    const rest = computePersonalTax({ taxableIncome: 128_000 - clawback }, BC);
+    expect(t.oasClawback).toBeCloseTo(clawback, 6);
+    expect(t.personalTax).toBeCloseTo(rest.personalTax + clawback, 6);
+  });
+});
+
+describe("scenarios for an owner on OAS", () => {
+  const base = { businessIncome: 200_000, personalCashNeeded: 90_000, province: "BC" as const, taxYear: 2025 };
+
+  it.each(SCENARIOS)("%s: adds the clawback to federal tax", (s) => {
+    const plain = calculateScenario(base, s);
+    const r = calculateScenario({ ...base, age: 70 }, s);
+    expect(r.oasClawback).toBeGreaterThan(0);
+    expect(r.personalTaxes).toBeGreaterThan(plain.personalTaxes);
+    expect(r.federalTax).toBeGreaterThan(plain.federalTax);
+    if (s !== "UNINCORPORATED") {
+      expect(Math.abs(r.personalCash - base.personalCashNeeded)).toBeLessThan(1);
+    }
+  });
+
+  it("tests grossed-up dividends against the threshold", () => {
+    const r = calculateScenario({ ...base, personalCashNeeded: 75_000, age: 70 }, "INC_DIVIDENDS");
+    expect(r.taxableIncome).toBeGreaterThan(r.eligibleDividends + r.nonEligibleDividends);
+    expect(r.oasClawback).toBeCloseTo(computeOasClawback(r.taxableIncome, BC, { age: 70 }), 6);
+  });
+});
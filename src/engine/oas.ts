@@ -0,0 +1,35 @@
+// src/engine/oas.ts
+import type { TaxRules } from "./taxYears";
+import type { PersonalProfile } from "./type";
+
+/**
+ * OAS recovery tax ("clawback")
+ * - 15% of net income over the year's threshold, up to the OAS received.
+ * - Net income here = taxable income from the business draw (incl. grossed-up dividends,
+ *   after the RRSP deduction) + the OAS itself.
+ * - The OAS is taxable: computePersonalTax adds it to the draw's taxable income and deducts
+ *   the recovery tax (a deduction on the return), so the tax on it shows up in every
+ *   scenario. The pension itself isn't counted in personal cash: it's the same in every
+ *   scenario and isn't part of the draw.
+ * - OAS received: the oasPension input, or the full pension from age 65 (+10% from 75).
+ */
+
+export const OAS_RECOVERY_RATE = 0.15;
+export const OAS_AGE = 65;
+const OAS_INCREASE_AGE = 75;
+const OAS_INCREASE = 0.10;
+
+/** Annual OAS received for this profile (0 when neither age nor OAS is set) */
+export function oasPensionFor(profile: PersonalProfile, rules: TaxRules) {
+  if (profile.oasPension != null) return Math.max(0, profile.oasPension);
+  const age = profile.age ?? 0;
+  if (age < OAS_AGE) return 0;
+  return rules.oas.MAX * (age >= OAS_INCREASE_AGE ? 1 + OAS_INCREASE : 1);
+}
+
+export function computeOasClawback(taxableIncome: number, rules: TaxRules, profile: PersonalProfile = {}) {
+  const oas = oasPensionFor(profile, rules);
+  if (oas <= 0) return 0;
+  const netIncome = Math.max(0, taxableIncome) + oas;
+  return Math.min(oas, Math.max(0, netIncome - rules.oas.THRESHOLD) * OAS_RECOVERY_RATE);
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { calculateScenario } from "./index";
+import { JURISDICTIONS } from "./jurisdictions";
+import { employerHealthTax, payrollCostsFor, worksafePremium } from "./payrollTax";
+import { resolveTaxRules } from "./taxYears";
+
+const BC = JURISDICTIONS.BC;
+
+describe("employerHealthTax", () => {
+  it("is nothing up to the $1M exemption", () => {
+    expect(employerHealthTax(400_000, BC)).toBe(0);
+    expect(employerHealthTax(1_000_000, BC)).toBe(0);
+  });
+
+  it("charges the notch rate on the excess, then the full rate from $1.5M", () => {
+    expect(employerHealthTax(1_200_000, BC)).toBeCloseTo(200_000 * 0.0585, 6);
+    expect(employerHealthTax(1_500_000, BC)).toBeCloseTo(1_500_000 * 0.0195, 6);
+    expect(employerHealthTax(2_000_000, BC)).toBeCloseTo(2_000_000 * 0.0195, 6);
+  });
+
+  it("doesn't apply outside BC", () => {
+    expect(employerHealthTax(2_000_000, JURISDICTIONS.AB)).toBe(0);
+  });
+});
+
+describe("worksafePremium", () => {
+  it("charges the rate per $100 up to the maximum assessable earnings", () => {
+    expect(worksafePremium(80_000, 1.5, BC)).toBeCloseTo(1_200, 6);
+    expect(worksafePremium(300_000, 1.5, BC)).toBeCloseTo(BC.payroll!.maxAssessableEarnings * 0.015, 6);
+  });
+
+  it("indexes the earnings cap for projected years", () => {
+    const rules = resolveTaxRules("BC", 2027, 0.02);
+    expect(rules.province.payroll!.maxAssessableEarnings).toBe(Math.round(121_500 * 1.02));
+    expect(payrollCostsFor(500_000, rules, 1).worksafePremium).toBeCloseTo(
+      rules.province.payroll!.maxAssessableEarnings / 100,
+      6
+    );
+  });
+});
+
+describe("payroll costs in the salary scenarios", () => {
+  const base = { businessIncome: 400_000, personalCashNeeded: 120_000, province: "BC" as const, taxYear: 2025 };
+
+  it("deducts the WorkSafeBC premium from corporate profit", () => {
+    const plain = calculateScenario(base, "INC_SALARY");
+    const wcb = calculateScenario({ ...base, worksafeRate: 2 }, "INC_SALARY");
+
+    expect(plain.worksafePremium).toBe(0);
+    expect(wcb.worksafePremium).toBeCloseTo(Math.min(wcb.grossSalary, 121_500) * 0.02, 6);
+    expect(wcb.personalCash).toBeCloseTo(plain.personalCash, 2);
+    expect(wcb.corporateCash).toBeLessThan(plain.corporateCash);
+    expect(wcb.totalTaxRate).toBeGreaterThan(plain.totalTaxRate);
+  });
+
+  it("charges EHT once the owner's salary passes the exemption", () => {
+    const big = { ...base, businessIncome: 3_000_000, personalCashNeeded: 700_000 };
+    const r = calculateScenario(big, "INC_SALARY");
+    expect(r.grossSalary).toBeGreaterThan(1_000_000);
+    expect(r.employerHealthTax).toBeCloseTo(employerHealthTax(r.grossSalary, BC), 6);
+    expect(calculateScenario(base, "INC_SALARY").employerHealthTax).toBe(0);
+  });
+
+  it("charges the salary portion of the mix the same way", () => {
+    const plain = calculateScenario(base, "INC_MIXED");
+    const wcb = calculateScenario({ ...base, worksafeRate: 2 }, "INC_MIXED");
+
+    expect(wcb.grossSalary).toBeGreaterThan(0);
+    expect(wcb.worksafePremium).toBeCloseTo(worksafePremium(wcb.grossSalary, 2, BC), 6);
+    expect(wcb.corporateCash).toBeLessThan(plain.corporateCash);
+  });
+
+  it("ignores the WorkSafeBC rate outside BC and without a salary", () => {
+    expect(calculateScenario({ ...base, province: "ON", worksafeRate: 2 }, "INC_SALARY").worksafePremium).toBe(0);
+    expect(calculateScenario({ ...base, worksafeRate: 2 }, "INC_DIVIDENDS").worksafePremium).toBe(0);
+  });
+});
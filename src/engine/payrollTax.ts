@@ -0,0 +1,38 @@
+// src/engine/payrollTax.ts
+import type { Jurisdiction } from "./jurisdictions";
+import type { TaxRules } from "./taxYears";
+
+/**
+ * Employer payroll costs beyond CPP/EI (BC)
+ * - Employer Health Tax: nothing on annual remuneration up to the exemption ($1M); above it,
+ *   the notch rate (5.85%) on the excess, until that catches up with the full rate (1.95%)
+ *   on all remuneration (at $1.5M). The owner's salary is the only remuneration counted.
+ * - WorkSafeBC: the industry classification rate is per $100 of assessable payroll, and
+ *   each worker's earnings are assessable up to the maximum assessable earnings.
+ * - Both are paid by the corporation and deductible; provinces without a payroll table pay neither.
+ */
+
+export type PayrollCosts = {
+  employerHealthTax: number;
+  worksafePremium: number;
+  total: number;
+};
+
+export function employerHealthTax(remuneration: number, j: Jurisdiction) {
+  const eht = j.payroll?.healthTax;
+  if (!eht || remuneration <= eht.exemption) return 0;
+  return Math.min(remuneration * eht.rate, (remuneration - eht.exemption) * eht.notchRate);
+}
+
+/** Premium at a classification rate quoted per $100 of assessable earnings */
+export function worksafePremium(earnings: number, ratePer100: number, j: Jurisdiction) {
+  if (!j.payroll || ratePer100 <= 0) return 0;
+  return (Math.min(Math.max(0, earnings), j.payroll.maxAssessableEarnings) * ratePer100) / 100;
+}
+
+/** Employer payroll costs on one salary */
+export function payrollCostsFor(salary: number, rules: TaxRules, worksafeRate = 0): PayrollCosts {
+  const eht = employerHealthTax(salary, rules.province);
+  const wcb = worksafePremium(salary, worksafeRate, rules.province);
+  return { employerHealthTax: eht, worksafePremium: wcb, total: eht + wcb };
+}
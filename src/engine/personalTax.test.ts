@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { computePersonalTax, grossUpDividends, progressiveTax } from "./personalTax";
+import { FED_BRACKETS } from "./taxTables_2025_BC";
+import { resolveTaxRules } from "./taxYears";
+
+const BC = resolveTaxRules("BC", 2025);
+const ON = resolveTaxRules("ON", 2025);
+
+describe("progressiveTax", () => {
+  it("is exact at federal bracket boundaries", () => {
+    expect(progressiveTax(0, FED_BRACKETS)).toBe(0);
+    expect(progressiveTax(57_375, FED_BRACKETS)).toBeCloseTo(8_319.38, 2);
+    expect(progressiveTax(114_750, FED_BRACKETS)).toBeCloseTo(20_081.25, 2);
+  });
+
+  it("taxes the next dollar above a boundary at the next rate", () => {
+    const at = progressiveTax(114_750, FED_BRACKETS);
+    expect(progressiveTax(114_751, FED_BRACKETS) - at).toBeCloseTo(0.26, 6);
+  });
+});
+
+describe("computePersonalTax", () => {
+  it("matches a hand calculation for BC employment-type income", () => {
+    // Fed: 50,000 × 14.5% − 16,129 × 14.5%  = 4,911.295
+    // BC:  49,279 × 5.06% + 721 × 7.70% − 12,932 × 5.06% = 1,894.6752
+    const r = computePersonalTax({ taxableIncome: 50_000 }, BC);
+    expect(r.federalTax).toBeCloseTo(4_911.295, 3);
+    expect(r.provincialTax).toBeCloseTo(1_894.68, 2);
+    expect(r.personalTax).toBeCloseTo(r.federalTax + r.provincialTax, 6);
+  });
+
+  it("never goes below zero under the BPA", () => {
+    const r = computePersonalTax({ taxableIncome: 10_000 }, BC);
+    expect(r.federalTax).toBe(0);
+    expect(r.provincialTax).toBe(0);
+  });
+
+  it("gives the statutory federal DTC (6/11 and 9/13 of the gross-up)", () => {
+    const elig = grossUpDividends(100, 0);
+    const nonElig = grossUpDividends(0, 100);
+    expect(elig.eligible).toBeCloseTo(138, 6);
+    expect(nonElig.nonEligible).toBeCloseTo(115, 6);
+    expect(elig.eligible * BC.federal.dtcRate.eligible).toBeCloseTo((38 * 6) / 11, 2);
+    expect(nonElig.nonEligible * BC.federal.dtcRate.nonEligible).toBeCloseTo((15 * 9) / 13, 2);
+  });
+
+  it.each([
+    [15_000, 0],
+    [30_000, 300],
+    [40_000, 450],
+    [50_000, 600],
+    [100_000, 750],
+    [250_000, 900],
+  ])("charges the Ontario Health Premium at %i → %i", (income, premium) => {
+    expect(computePersonalTax({ taxableIncome: income }, ON).healthPremium).toBeCloseTo(premium, 6);
+  });
+
+  it("applies Ontario surtax on basic ON tax above the thresholds", () => {
+    const r = computePersonalTax({ taxableIncome: 200_000 }, ON);
+    const basic = r.provincialTax - r.surtax - r.healthPremium;
+    const expected = Math.max(0, basic - 5_710) * 0.2 + Math.max(0, basic - 7_307) * 0.36;
+    expect(r.surtax).toBeGreaterThan(0);
+    expect(r.surtax).toBeCloseTo(expected, 6);
+  });
+});
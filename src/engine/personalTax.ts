@@ -0,0 +1,141 @@
+// src/engine/personalTax.ts
+import { computeAmt } from "./amt";
+import { computeCredits, creditValues, type CreditValues } from "./credits";
+import type { Brackets, HealthPremiumTier, Jurisdiction } from "./jurisdictions";
+import { computeOasClawback, oasPensionFor } from "./oas";
+import type { TaxRules } from "./taxYears";
+import { DIVIDENDS_2025 } from "./taxTables_2025_BC";
+import type { PersonalProfile } from "./type";
+
+/**
+ * Personal income tax — federal + selected province, for the rules' tax year
+ * - Gross tax from brackets, less non-refundable credits (BPA, employment, CPP and the
+ *   profile's age/pension/disability/tuition amounts from credits.ts at each level's
+ *   credit rate, DTCs on grossed-up dividends). Credits can't go below zero.
+ * - BC's low-income tax reduction comes off provincial tax after credits.
+ * - Provincial surtax (e.g. Ontario) applies to provincial tax after credits;
+ *   health premiums are added on top and reported as provincial tax.
+ * - Federal tax also carries the AMT (net of any carry-forward credit recovered) and the
+ *   OAS recovery tax when the profile has an age / OAS (see amt.ts, oas.ts).
+ * - The OAS pension is added to the taxable income passed in (which is the draw's), less
+ *   the recovery tax, which is deductible.
+ */
+
+export function progressiveTax(taxable: number, brackets: Brackets): number {
+  let tax = 0, prev = 0;
+  for (const [cap, rate] of brackets) {
+    const amt = Math.max(0, Math.min(taxable, cap) - prev);
+    if (amt <= 0) break;
+    tax += amt * rate;
+    prev = cap;
+    if (taxable <= cap) break;
+  }
+  return tax;
+}
+
+function surtaxOn(basicTax: number, tiers?: Array<[number, number]>) {
+  if (!tiers) return 0;
+  return tiers.reduce((sum, [threshold, rate]) => sum + Math.max(0, basicTax - threshold) * rate, 0);
+}
+
+function healthPremiumOn(taxableIncome: number, tiers?: HealthPremiumTier[]) {
+  if (!tiers) return 0;
+  let premium = 0;
+  for (const t of tiers) {
+    if (taxableIncome <= t.over) break;
+    premium = Math.min(t.max, t.base + (taxableIncome - t.over) * t.rate);
+  }
+  return premium;
+}
+
+/** Grossed-up (taxable) amounts for cash dividends */
+export function grossUpDividends(eligibleCash: number, nonEligibleCash: number) {
+  const eligible    = Math.max(0, eligibleCash) * DIVIDENDS_2025.GROSS_UP.eligible;
+  const nonEligible = Math.max(0, nonEligibleCash) * DIVIDENDS_2025.GROSS_UP.nonEligible;
+  return { eligible, nonEligible, total: eligible + nonEligible };
+}
+
+export type PersonalTaxInput = {
+  /** Taxable income after deductions (includes grossed-up dividends) */
+  taxableIncome: number;
+  /** CPP base EE contributions, taken as a credit at each level's credit rate */
+  creditAmounts?: number;
+  /** Salary included in taxableIncome (earns the Canada Employment Amount) */
+  employmentIncome?: number;
+  /** EI premiums paid (employee or self-employed), taken as a credit */
+  eiPremiums?: number;
+  /** Grossed-up dividends that earn dividend tax credits */
+  eligibleGrossedUp?: number;
+  nonEligibleGrossedUp?: number;
+  /** Age / OAS / AMT carry-forward, when the scenario has them */
+  profile?: PersonalProfile;
+};
+
+export type PersonalTaxResult = {
+  federalTax: number;    // net of credits
+  provincialTax: number; // net of credits, incl. surtax + health premium
+  personalTax: number;
+  surtax: number;
+  healthPremium: number;
+  amt: number;             // included in federalTax
+  amtCreditUsed: number;   // carry-forward taken off federalTax
+  amtCarryForward: number; // closing AMT credit
+  oasClawback: number;     // included in federalTax
+  credits: CreditValues;   // itemized non-refundable credits + tax reduction ($)
+};
+
+export function computePersonalTax(p: PersonalTaxInput, rules: TaxRules): PersonalTaxResult {
+  const prov = rules.province;
+  const oasClawback = computeOasClawback(p.taxableIncome, rules, p.profile);
+  const taxable = Math.max(0, p.taxableIncome) + oasPensionFor(p.profile ?? {}, rules) - oasClawback;
+  const credits = Math.max(0, p.creditAmounts ?? 0);
+  const elig    = Math.max(0, p.eligibleGrossedUp ?? 0);
+  const nonElig = Math.max(0, p.nonEligibleGrossedUp ?? 0);
+
+  const c = computeCredits(
+    {
+      netIncome: taxable,
+      employmentIncome: p.employmentIncome,
+      cppAmount: credits,
+      eiPremiums: p.eiPremiums,
+      profile: p.profile,
+    },
+    rules
+  );
+
+  const netOfCredits = (j: Jurisdiction, creditAmounts: number) => {
+    const gross = progressiveTax(taxable, j.brackets);
+    const nonRefundable =
+      creditAmounts * j.creditRate +
+      elig * j.dtcRate.eligible +
+      nonElig * j.dtcRate.nonEligible;
+    return Math.max(0, gross - nonRefundable);
+  };
+
+  const regularFederal = netOfCredits(rules.federal, c.federal.total);
+  const amt = computeAmt(
+    { taxableIncome: taxable, creditAmounts: c.federal.total, eligibleGrossedUp: elig, nonEligibleGrossedUp: nonElig },
+    regularFederal,
+    rules,
+    p.profile?.amtCarryForward
+  );
+  const federalTax = regularFederal + amt.amt - amt.creditUsed + oasClawback;
+
+  const provBasic     = Math.max(0, netOfCredits(prov, c.provincial.total) - c.taxReduction);
+  const surtax        = surtaxOn(provBasic, prov.surtax);
+  const healthPremium = healthPremiumOn(taxable, prov.healthPremium);
+  const provincialTax = provBasic + surtax + healthPremium;
+
+  return {
+    federalTax,
+    provincialTax,
+    personalTax: federalTax + provincialTax,
+    surtax,
+    healthPremium,
+    amt: amt.amt,
+    amtCreditUsed: amt.creditUsed,
+    amtCarryForward: amt.carryForward,
+    oasClawback,
+    credits: creditValues(c, rules),
+  };
+}
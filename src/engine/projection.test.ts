@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { calculateScenario } from "./index";
+import { SBD_LIMIT_BC } from "./corporateTax_BC";
+import { applyPassiveGrind, groundSmallBusinessLimit, investmentIncomeRate } from "./corporateTax";
+import { projectRetainedEarnings } from "./projection";
+import { resolveTaxRules } from "./taxYears";
+
+describe("groundSmallBusinessLimit", () => {
+  it.each([
+    [0, SBD_LIMIT_BC],
+    [50_000, SBD_LIMIT_BC],
+    [75_000, 375_000],
+    [150_000, 0],
+    [400_000, 0],
+  ])("AAII %i → limit %i", (aaii, limit) => {
+    expect(groundSmallBusinessLimit(SBD_LIMIT_BC, aaii)).toBe(limit);
+  });
+});
+
+describe("applyPassiveGrind", () => {
+  it("grinds the provincial limit in step with the federal one", () => {
+    const sk = applyPassiveGrind(resolveTaxRules("SK", 2025), 100_000);
+    expect(sk.federal.corporate.smallBusinessLimit).toBe(250_000);
+    expect(sk.province.corporate.smallBusinessLimit).toBe(300_000);
+  });
+
+  it("leaves Ontario's own limit alone", () => {
+    const on = applyPassiveGrind(resolveTaxRules("ON", 2025), 100_000);
+    expect(on.federal.corporate.smallBusinessLimit).toBe(250_000);
+    expect(on.province.corporate.smallBusinessLimit).toBe(500_000);
+  });
+
+  it("moves active income above the ground limit to the general rate", () => {
+    const base = { businessIncome: 300_000, personalCashNeeded: 0, province: "BC" as const, taxYear: 2025 };
+    const clean = calculateScenario(base, "INC_DIVIDENDS");
+    const ground = calculateScenario({ ...base, priorYearInvestmentIncome: 150_000 }, "INC_DIVIDENDS");
+    expect(clean.corporateTaxes).toBeCloseTo(300_000 * 0.11, 6);
+    expect(ground.corporateTaxes).toBeCloseTo(300_000 * 0.27, 6);
+  });
+});
+
+describe("projectRetainedEarnings", () => {
+  const input = {
+    businessIncome: 400_000,
+    personalCashNeeded: 100_000,
+    province: "BC" as const,
+    taxYear: 2025,
+    scenario: "INC_DIVIDENDS" as const,
+    years: 8,
+    returnRate: 0.06,
+    openingBalance: 800_000,
+  };
+  const p = projectRetainedEarnings(input);
+
+  it("rolls the balance forward year to year", () => {
+    p.years.forEach((y, i) => {
+      if (i > 0) expect(y.openingBalance).toBeCloseTo(p.years[i - 1].closingBalance, 6);
+      expect(y.closingBalance).toBeCloseTo(
+        y.openingBalance + y.investmentIncome - y.investmentTax + y.dividendRefund + y.retainedFromOperations,
+        6
+      );
+    });
+    expect(p.closingBalance).toBe(p.years.at(-1)!.closingBalance);
+  });
+
+  it("grinds each year's limit from the prior year's investment income", () => {
+    expect(p.years[0].smallBusinessLimit).toBe(SBD_LIMIT_BC);
+    for (let i = 1; i < p.years.length; i++) {
+      expect(p.years[i].smallBusinessLimit).toBeCloseTo(
+        groundSmallBusinessLimit(SBD_LIMIT_BC, p.years[i - 1].investmentIncome),
+        6
+      );
+    }
+    expect(p.years.at(-1)!.smallBusinessLimit).toBeLessThan(SBD_LIMIT_BC);
+  });
+
+  it("taxes investment income at the Part I investment rate", () => {
+    const rate = investmentIncomeRate(resolveTaxRules("BC", 2025));
+    expect(rate).toBeCloseTo(0.5067, 4);
+    expect(p.years[0].investmentTax).toBeCloseTo(800_000 * 0.06 * rate, 6);
+  });
+});
@@ -0,0 +1,147 @@
+// src/engine/projection.ts
+import { calculateScenario } from "./scenarios";
+import { applyPassiveGrind } from "./corporateTax";
+import { NO_RDTOH, type RdtohBalances } from "./investmentIncome";
+import { resolveTaxRules } from "./taxYears";
+import type { CalcParams, Scenario, ScenarioOutput } from "./type";
+
+/**
+ * Multi-year retained earnings projection
+ * - Year 1 is params.taxYear; each later year uses the next tax year's rules
+ *   (projected by inflationRate once past the published tables).
+ * - Every year the chosen scenario runs on the same business income and cash target,
+ *   with the small-business limit ground down by the PRIOR year's investment income.
+ * - Retained cash earns returnRate on the opening balance, taken as interest: it is the
+ *   year's adjusted aggregate investment income (AAII), taxed under Part I with the
+ *   refundable part building non-eligible RDTOH. RDTOH carries from year to year and is
+ *   refunded as dividends are paid (see investmentIncome.ts); the CDA carries the same way.
+ * - The owner ages a year each year (OAS from 65) and any AMT credit carries forward.
+ * - Closing balance = opening + the scenario's corporate cash (business and investment
+ *   income after tax and refunds, less what was paid out).
+ */
+
+export type ProjectionInput = CalcParams & {
+  scenario: Scenario;
+  years: number;
+  returnRate: number;       // annual return on retained cash (e.g. 0.05)
+  openingBalance?: number;  // retained cash already in the corp at the start of year 1
+};
+
+export type ProjectionYear = {
+  year: number;             // 1..years
+  taxYear: number;
+
+  openingBalance: number;
+  investmentIncome: number; // AAII for the year
+  investmentTax: number;    // Part I on the return
+  dividendRefund: number;
+
+  smallBusinessLimit: number; // federal limit after the grind
+  activeIncomeTax: number;    // corporate tax on business income
+  corporateTaxes: number;     // active + investment − refunds
+
+  retainedFromOperations: number; // business income after tax and draws
+  closingBalance: number;
+  closingRdtoh: RdtohBalances;
+  closingCda: number;
+
+  personalCash: number;     // personal draw after tax/CPP
+  personalTaxes: number;
+  totalCPP: number;
+  cappedByAfterTaxProfit: boolean;
+};
+
+export type ProjectionResult = {
+  scenario: Scenario;
+  years: ProjectionYear[];
+
+  totalCorporateTaxes: number;
+  totalPersonalTaxes: number;
+  totalPersonalCash: number;
+  closingBalance: number;
+};
+
+export function projectRetainedEarnings(input: ProjectionInput): ProjectionResult {
+  const { scenario, returnRate, province = "BC" } = input;
+  const startYear = input.taxYear ?? resolveTaxRules(province).year;
+  const years = Math.max(0, Math.floor(input.years));
+
+  const rows: ProjectionYear[] = [];
+  let balance = input.openingBalance ?? 0;
+  let rdtoh = input.openingRdtoh ?? NO_RDTOH;
+  let cda = input.openingCda ?? 0;
+  let priorYearAAII = input.priorYearInvestmentIncome ?? 0;
+  let amtCarryForward = input.amtCarryForward ?? 0;
+
+  for (let i = 0; i < years; i++) {
+    const taxYear = startYear + i;
+    const rules = applyPassiveGrind(
+      resolveTaxRules(province, taxYear, input.inflationRate),
+      priorYearAAII
+    );
+
+    // Return on the opening balance (an overdrawn corp earns nothing)
+    const investmentIncome = Math.max(0, balance) * returnRate;
+
+    // The year under the ground limit: business + investment income, draws, refunds
+    const ops: ScenarioOutput = calculateScenario(
+      {
+        ...input,
+        province,
+        taxYear,
+        priorYearInvestmentIncome: priorYearAAII,
+        investmentIncome: { interest: investmentIncome },
+        openingRdtoh: rdtoh,
+        openingCda: cda,
+        age: input.age != null ? input.age + i : undefined,
+        amtCarryForward,
+      },
+      scenario
+    );
+
+    const investmentTax = ops.investmentTaxes;
+    const openingBalance = balance;
+    balance = balance + ops.corporateCash;
+    rdtoh = { eligible: ops.rdtohEligible, nonEligible: ops.rdtohNonEligible };
+    cda = ops.cdaBalance;
+    amtCarryForward = ops.amtCarryForward;
+
+    rows.push({
+      year: i + 1,
+      taxYear,
+
+      openingBalance,
+      investmentIncome,
+      investmentTax,
+      dividendRefund: ops.dividendRefund,
+
+      smallBusinessLimit: rules.federal.corporate.smallBusinessLimit,
+      activeIncomeTax: ops.corporateTaxes - investmentTax + ops.dividendRefund,
+      corporateTaxes: ops.corporateTaxes,
+
+      retainedFromOperations: ops.corporateCash - (investmentIncome - investmentTax + ops.dividendRefund),
+      closingBalance: balance,
+      closingRdtoh: rdtoh,
+      closingCda: cda,
+
+      personalCash: ops.personalCash,
+      personalTaxes: ops.personalTaxes,
+      totalCPP: ops.totalCPP,
+      cappedByAfterTaxProfit: Boolean(ops._cappedByAfterTaxProfit),
+    });
+
+    priorYearAAII = investmentIncome;
+  }
+
+  const sum = (f: (r: ProjectionYear) => number) => rows.reduce((s, r) => s + f(r), 0);
+
+  return {
+    scenario,
+    years: rows,
+
+    totalCorporateTaxes: sum((r) => r.corporateTaxes),
+    totalPersonalTaxes: sum((r) => r.personalTaxes),
+    totalPersonalCash: sum((r) => r.personalCash),
+    closingBalance: balance,
+  };
+}
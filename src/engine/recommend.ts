@@ -0,0 +1,38 @@
+// src/engine/recommend.ts
+import type { Scenario, ScenarioOutput } from "./type";
+
+/**
+ * Recommended structure
+ * - Scenarios that couldn't fund personalCashNeeded are skipped (unless none can).
+ * - Highest totalCash (personal + corporate) wins; ties go to lower tax + CPP + EI.
+ */
+
+export type Recommendation = {
+  scenario: Scenario;
+  totalCash: number;
+  /** totalCash advantage over the runner-up */
+  advantage: number;
+};
+
+export function recommendScenario(
+  results: Partial<Record<Scenario, ScenarioOutput>>
+): Recommendation | null {
+  const all = Object.values(results).filter((r): r is ScenarioOutput => !!r);
+  if (all.length === 0) return null;
+
+  const funded = all.filter((r) => !r._cappedByAfterTaxProfit);
+  const pool = funded.length > 0 ? funded : all;
+
+  const ranked = [...pool].sort(
+    (a, b) =>
+      b.totalCash - a.totalCash ||
+      (a.totalTaxes + a.totalCPP + a.totalEI) - (b.totalTaxes + b.totalCPP + b.totalEI)
+  );
+
+  const [best, runnerUp] = ranked;
+  return {
+    scenario: best.scenario,
+    totalCash: best.totalCash,
+    advantage: runnerUp ? best.totalCash - runnerUp.totalCash : 0,
+  };
+}
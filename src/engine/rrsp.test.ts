@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { SCENARIOS, calculateScenario } from "./index";
+import { rrspContributionFor, rrspRoomFor } from "./rrsp";
+import { resolveTaxRules } from "./taxYears";
+
+const BC = resolveTaxRules("BC", 2025);
+
+describe("rrspContributionFor", () => {
+  it("gives 18% of earned income, capped at the annual maximum", () => {
+    expect(rrspRoomFor(100_000, BC)).toBeCloseTo(18_000, 6);
+    expect(rrspRoomFor(500_000, BC)).toBe(BC.rrsp.MAX);
+  });
+
+  it("limits a contribution to carry-forward + new room", () => {
+    expect(rrspContributionFor(50_000, BC, { rrspContribution: 20_000 })).toBeCloseTo(9_000, 6);
+    expect(rrspContributionFor(50_000, BC, { rrspContribution: 20_000, rrspCarryForwardRoom: 5_000 }))
+      .toBeCloseTo(14_000, 6);
+    expect(rrspContributionFor(50_000, BC, { rrspContribution: 4_000 })).toBe(4_000);
+  });
+
+  it("contributes all available room when asked", () => {
+    expect(rrspContributionFor(0, BC, { rrspContributeAllRoom: true, rrspCarryForwardRoom: 7_500 })).toBe(7_500);
+  });
+});
+
+describe("scenarios with an RRSP contribution", () => {
+  const base = { businessIncome: 200_000, personalCashNeeded: 90_000, province: "BC" as const, taxYear: 2025 };
+  const withRrsp = { ...base, rrspContributeAllRoom: true, rrspCarryForwardRoom: 10_000 };
+
+  it.each(SCENARIOS)("%s: deducts the contribution and still hits the cash target", (s) => {
+    const plain = calculateScenario(base, s);
+    const r = calculateScenario(withRrsp, s);
+
+    expect(r.rrspContribution).toBeGreaterThanOrEqual(10_000);
+    expect(r.rrspRefund).toBeGreaterThan(0);
+    expect(r.personalTaxes).toBeLessThan(plain.personalTaxes);
+    expect(r.rrspSaved).toBe(r.rrspContribution);
+    if (s !== "UNINCORPORATED") {
+      expect(Math.abs(r.personalCash - base.personalCashNeeded)).toBeLessThan(1);
+    }
+  });
+
+  it("grosses up the salary to pay the contribution, less the refund", () => {
+    const plain = calculateScenario(base, "INC_SALARY");
+    const r = calculateScenario(withRrsp, "INC_SALARY");
+    expect(r.grossSalary).toBeGreaterThan(plain.grossSalary);
+    expect(r.rrspContribution).toBeCloseTo(10_000 + r.rrspRoom, 6);
+  });
+
+  it("pays the contribution out of personal cash at the same gross", () => {
+    // Unincorporated: gross is the business income either way
+    const plain = calculateScenario(base, "UNINCORPORATED");
+    const r = calculateScenario(withRrsp, "UNINCORPORATED");
+    expect(r.grossSalary).toBe(plain.grossSalary);
+    expect(plain.personalCash - r.personalCash).toBeCloseTo(r.rrspContribution - r.rrspRefund, 6);
+    expect(r.rrspSaved).toBe(r.rrspContribution);
+    expect(r.totalCash - plain.totalCash).toBeCloseTo(r.rrspRefund, 6);
+  });
+
+  it("keeps the refund = tax without the deduction − tax with it", () => {
+    const r = calculateScenario({ ...base, rrspContribution: 10_000, rrspCarryForwardRoom: 10_000 }, "INC_DIVIDENDS");
+    expect(r.rrspContribution).toBe(10_000);
+    expect(r.rrspRefund).toBeGreaterThan(0);
+    expect(r.rrspRefund).toBeLessThan(10_000 * 0.5);
+  });
+});
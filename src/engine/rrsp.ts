@@ -0,0 +1,41 @@
+// src/engine/rrsp.ts
+import { computePersonalTax, type PersonalTaxInput } from "./personalTax";
+import type { TaxRules } from "./taxYears";
+import type { RrspParams } from "./type";
+
+/**
+ * RRSP contributions
+ * - New room = 18% of earned income (salary / self-employment income, not dividends), capped.
+ * - Available to deduct = carry-forward room + this year's new room. Real room comes from
+ *   LAST year's earned income; we assume last year looked like this one.
+ * - The contribution is deducted from taxable income and paid out of personal cash: the
+ *   solvers gross up to cover it (less the refund), and it's reported as rrspSaved and
+ *   counted in total cash.
+ */
+
+export function rrspRoomFor(earnedIncome: number, rules: TaxRules) {
+  return Math.min(Math.max(0, earnedIncome) * rules.rrsp.RATE, rules.rrsp.MAX);
+}
+
+/**
+ * Amount deducted this year: the requested contribution (or all room), limited to the room.
+ * A pension adjustment (IPP) eats into the new room.
+ */
+export function rrspContributionFor(
+  earnedIncome: number,
+  rules: TaxRules,
+  rrsp: RrspParams = {},
+  pensionAdjustment = 0
+) {
+  const newRoom = Math.max(0, rrspRoomFor(earnedIncome, rules) - pensionAdjustment);
+  const available = Math.max(0, rrsp.rrspCarryForwardRoom ?? 0) + newRoom;
+  if (rrsp.rrspContributeAllRoom) return available;
+  return Math.min(Math.max(0, rrsp.rrspContribution ?? 0), available);
+}
+
+/** Tax saved by a contribution already taken off p.taxableIncome */
+export function rrspRefundFor(p: PersonalTaxInput, contribution: number, rules: TaxRules) {
+  if (contribution <= 0) return 0;
+  const without = computePersonalTax({ ...p, taxableIncome: p.taxableIncome + contribution }, rules);
+  return without.personalTax - computePersonalTax(p, rules).personalTax;
+}
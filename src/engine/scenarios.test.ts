@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { SCENARIOS, calculateAllScenarios, calculateUnincorporated, type CalcInput } from "./index";
+import { PROVINCES } from "./jurisdictions";
+
+// Property checks across an income × cash-needed grid (every scenario, BC + ON)
+const INCOMES = [30_000, 80_000, 150_000, 300_000, 600_000, 1_000_000];
+const NEEDS = [20_000, 60_000, 120_000, 200_000];
+
+const grid: CalcInput[] = ["BC", "ON"].flatMap((province) =>
+  INCOMES.flatMap((businessIncome) =>
+    NEEDS.map((personalCashNeeded) => ({
+      businessIncome,
+      personalCashNeeded,
+      province: province as "BC" | "ON",
+      taxYear: 2025,
+    }))
+  )
+);
+
+// ...plus an RRSP contribution at each income level, a fixed amount and "all room"
+const rrspBase = { personalCashNeeded: 60_000, taxYear: 2025 };
+const rrspGrid: CalcInput[] = INCOMES.flatMap((businessIncome) => [
+  { ...rrspBase, businessIncome, province: "BC", rrspContribution: 10_000, rrspCarryForwardRoom: 10_000 },
+  { ...rrspBase, businessIncome, province: "ON", rrspContributeAllRoom: true, rrspCarryForwardRoom: 20_000 },
+]);
+
+describe.each([...grid, ...rrspGrid])("scenario invariants at %o", (input) => {
+  const results = calculateAllScenarios(input);
+
+  it.each(SCENARIOS)("%s: totalCash = personal + corporate + pension fund + RRSP", (s) => {
+    const r = results[s];
+    expect(r.totalCash).toBeCloseTo(r.personalCash + r.corporateCash + r.pensionContribution + r.rrspSaved, 6);
+  });
+
+  it.each(SCENARIOS)("%s: totals and rate are consistent and in [0, 1]", (s) => {
+    const r = results[s];
+    expect(r.totalTaxes).toBeCloseTo(r.personalTaxes + r.corporateTaxes, 6);
+    expect(r.totalTaxRate).toBeGreaterThanOrEqual(0);
+    // Salary-only isn't capped: a target beyond the business income is paid out at a corporate loss
+    if (r.grossSalary + r.corporateCPP <= input.businessIncome) {
+      expect(r.totalTaxRate).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it.each(["INC_DIVIDENDS", "INC_MIXED"] as const)(
+    "%s: personal cash ≈ target unless capped by corporate cash",
+    (s) => {
+      const r = results[s];
+      if (r._cappedByAfterTaxProfit) {
+        expect(r.personalCash).toBeLessThan(input.personalCashNeeded);
+      } else {
+        expect(Math.abs(r.personalCash - input.personalCashNeeded)).toBeLessThan(1);
+      }
+    }
+  );
+
+  it("INC_SALARY: personal cash ≈ target", () => {
+    expect(Math.abs(results.INC_SALARY.personalCash - input.personalCashNeeded)).toBeLessThan(1);
+  });
+
+  it("INC_MIXED: never costs more than salary-only or dividends-only", () => {
+    const cost = (s: keyof typeof results) => results[s].totalTaxes + results[s].totalCPP;
+    const salaryAffordable = results.INC_SALARY.grossSalary + results.INC_SALARY.corporateCPP <= input.businessIncome;
+    if (results.INC_MIXED._cappedByAfterTaxProfit) return;
+    if (!results.INC_DIVIDENDS._cappedByAfterTaxProfit) {
+      expect(cost("INC_MIXED")).toBeLessThanOrEqual(cost("INC_DIVIDENDS") + 1);
+    }
+    if (salaryAffordable) {
+      expect(cost("INC_MIXED")).toBeLessThanOrEqual(cost("INC_SALARY") + 1);
+    }
+  });
+});
+
+describe("calculateUnincorporated", () => {
+  it.each(PROVINCES)("%s: net is monotonic in gross business income", (province) => {
+    let prev = -Infinity;
+    for (let businessIncome = 0; businessIncome <= 500_000; businessIncome += 2_500) {
+      const { personalCash } = calculateUnincorporated({
+        businessIncome,
+        personalCashNeeded: 0,
+        province,
+        taxYear: 2025,
+      });
+      expect(personalCash).toBeGreaterThanOrEqual(prev);
+      prev = personalCash;
+    }
+  });
+});
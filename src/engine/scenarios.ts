@@ -0,0 +1,37 @@
+// src/engine/scenarios.ts
+import { calculateUnincorporated } from "./calcUnincorporated";
+import { calculateIncorporatedSalary } from "./calcSalary";
+import { calculateIncorporatedDividends } from "./calcDividends";
+import { calculateIncorporatedMixed } from "./calcMixed";
+import type { CalcParams, Scenario, ScenarioOutput } from "./type";
+
+/**
+ * Scenario dispatcher — every scenario behind one call.
+ * Analysis modules (projection, household, sweep, …) import it from here, not from the
+ * index barrel, so the barrel can re-export them without import cycles.
+ */
+
+export const SCENARIOS: Scenario[] = ["UNINCORPORATED", "INC_SALARY", "INC_DIVIDENDS", "INC_MIXED"];
+
+export function calculateScenario(input: CalcParams, scenario: Scenario): ScenarioOutput {
+  switch (scenario) {
+    case "UNINCORPORATED":
+      return calculateUnincorporated(input);
+    case "INC_SALARY":
+      return calculateIncorporatedSalary(input);
+    case "INC_DIVIDENDS":
+      return calculateIncorporatedDividends(input);
+    case "INC_MIXED":
+      return calculateIncorporatedMixed(input);
+    default: {
+      const never: never = scenario;
+      throw new Error(`Unknown scenario: ${never}`);
+    }
+  }
+}
+
+export function calculateAllScenarios(input: CalcParams): Record<Scenario, ScenarioOutput> {
+  return Object.fromEntries(
+    SCENARIOS.map((s) => [s, calculateScenario(input, s)])
+  ) as Record<Scenario, ScenarioOutput>;
+}
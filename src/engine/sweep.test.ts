@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { calculateAllScenarios } from "./index";
+import { SWEEP_METRICS, sweepBusinessIncome, sweepIncomes } from "./sweep";
+
+describe("sweepIncomes", () => {
+  it("spaces incomes evenly, endpoints included", () => {
+    expect(sweepIncomes(30_000, 1_000_000, 4)).toEqual([30_000, 272_500, 515_000, 757_500, 1_000_000]);
+  });
+
+  it("merges extra incomes in order without duplicates", () => {
+    expect(sweepIncomes(0, 100_000, 2, [75_000, 50_000])).toEqual([0, 50_000, 75_000, 100_000]);
+  });
+
+  it("accepts a reversed range and never goes negative", () => {
+    expect(sweepIncomes(100_000, -50_000, 2)).toEqual([0, 50_000, 100_000]);
+  });
+});
+
+describe("sweepBusinessIncome", () => {
+  const params = { businessIncome: 0, personalCashNeeded: 60_000, province: "BC" as const, taxYear: 2025 };
+
+  it("runs every scenario at each income with the other inputs unchanged", () => {
+    const points = sweepBusinessIncome(params, [80_000, 250_000]);
+    expect(points.map((p) => p.businessIncome)).toEqual([80_000, 250_000]);
+    expect(points[1].results).toEqual(calculateAllScenarios({ ...params, businessIncome: 250_000 }));
+  });
+
+  it("taxes more as unincorporated income rises", () => {
+    const [lo, hi] = sweepBusinessIncome(params, [80_000, 250_000]);
+    const tax = SWEEP_METRICS.taxAndCpp.value;
+    expect(tax(hi.results.UNINCORPORATED)).toBeGreaterThan(tax(lo.results.UNINCORPORATED));
+    expect(SWEEP_METRICS.totalTaxRate.value(hi.results.UNINCORPORATED)).toBeGreaterThan(
+      SWEEP_METRICS.totalTaxRate.value(lo.results.UNINCORPORATED)
+    );
+  });
+});
@@ -0,0 +1,46 @@
+// src/engine/sweep.ts
+import { calculateAllScenarios } from "./scenarios";
+import type { CalcParams, Scenario, ScenarioOutput } from "./type";
+
+/**
+ * Income sweep — every scenario across a range of business incomes
+ * - Everything but businessIncome stays as entered (cash needed, province, year, options).
+ * - Incomes are evenly spaced and rounded to the dollar; extra incomes (e.g. the user's own)
+ *   are merged in so a chart can mark them on the curves.
+ * - The mix optimizer dominates the cost (~tens of ms per income), so callers that need
+ *   to stay responsive run `sweepPoint` one income at a time.
+ */
+
+export type SweepPoint = {
+  businessIncome: number;
+  results: Record<Scenario, ScenarioOutput>;
+};
+
+export type SweepMetric = "totalTaxRate" | "taxAndCpp" | "personalCash" | "corporateCash";
+
+export const SWEEP_METRICS: Record<SweepMetric, { label: string; value: (r: ScenarioOutput) => number }> = {
+  totalTaxRate: { label: "Effective rate", value: (r) => r.totalTaxRate },
+  taxAndCpp: { label: "Total tax + CPP", value: (r) => r.totalTaxes + r.totalCPP },
+  personalCash: { label: "Personal cash", value: (r) => r.personalCash },
+  corporateCash: { label: "Corporate cash", value: (r) => r.corporateCash },
+};
+
+export const DEFAULT_SWEEP = { from: 30_000, to: 1_000_000, steps: 40 } as const;
+
+/** Evenly spaced incomes from..to (steps intervals), plus any extras, sorted and de-duplicated */
+export function sweepIncomes(from: number, to: number, steps: number, extra: number[] = []) {
+  const lo = Math.max(0, Math.min(from, to));
+  const hi = Math.max(from, to);
+  const n = Math.max(1, Math.floor(steps));
+
+  const grid = Array.from({ length: n + 1 }, (_, i) => Math.round(lo + ((hi - lo) * i) / n));
+  return Array.from(new Set([...grid, ...extra.map(Math.round)])).sort((a, b) => a - b);
+}
+
+export function sweepPoint(params: CalcParams, businessIncome: number): SweepPoint {
+  return { businessIncome, results: calculateAllScenarios({ ...params, businessIncome }) };
+}
+
+export function sweepBusinessIncome(params: CalcParams, incomes: number[]): SweepPoint[] {
+  return incomes.map((income) => sweepPoint(params, income));
+}
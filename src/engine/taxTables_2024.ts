@@ -0,0 +1,113 @@
+// src/engine/taxTables_2024.ts
+import { FEDERAL, JURISDICTIONS } from "./jurisdictions";
+import { CPP_2025 } from "./cppHelpers";
+import { EI_2025 } from "./ei";
+import type { TaxYearTables } from "./taxYears";
+
+/**
+ * 2024 Tax Tables — federal + provinces
+ * - Only amounts that differ from 2025 are listed; rates, DTCs and corporate
+ *   rates are the 2025 values unless overridden below.
+ */
+
+export const TABLES_2024: TaxYearTables = {
+  year: 2024,
+  projected: false,
+
+  federal: {
+    ...FEDERAL,
+    brackets: [
+      [55_867, 0.15],
+      [111_733, 0.205],
+      [173_205, 0.26],
+      [246_752, 0.29],
+      [Number.POSITIVE_INFINITY, 0.33],
+    ],
+    bpa: 15_705,
+    creditRate: 0.15,
+    credits: {
+      ...FEDERAL.credits,
+      bpaMin: 14_156,
+      canadaEmployment: 1_433,
+      age: { amount: 8_790, threshold: 44_325 },
+      disability: 9_872,
+    },
+  },
+
+  provinces: {
+    BC: {
+      ...JURISDICTIONS.BC,
+      brackets: [
+        [47_937, 0.0506],
+        [95_875, 0.0770],
+        [110_076, 0.1050],
+        [133_664, 0.1229],
+        [181_232, 0.1470],
+        [252_752, 0.1680],
+        [Number.POSITIVE_INFINITY, 0.2050],
+      ],
+      bpa: 12_580,
+      credits: {
+        ...JURISDICTIONS.BC.credits,
+        age: { amount: 5_641, threshold: 41_993 },
+        disability: 9_428,
+        taxReduction: { max: 547, threshold: 24_338, rate: 0.0356 },
+      },
+      payroll: {
+        healthTax: { exemption: 1_000_000, notchRate: 0.0585, rate: 0.0195 },
+        maxAssessableEarnings: 116_700,
+      },
+    },
+    AB: {
+      ...JURISDICTIONS.AB,
+      // single 10% bracket up to $148,269 (8% bracket starts in 2025)
+      brackets: [
+        [148_269, 0.10],
+        [177_922, 0.12],
+        [237_230, 0.13],
+        [355_845, 0.14],
+        [Number.POSITIVE_INFINITY, 0.15],
+      ],
+      bpa: 21_885,
+      creditRate: 0.10,
+    },
+    SK: {
+      ...JURISDICTIONS.SK,
+      brackets: [
+        [52_057, 0.105],
+        [148_734, 0.125],
+        [Number.POSITIVE_INFINITY, 0.145],
+      ],
+      bpa: 18_491,
+    },
+    MB: {
+      ...JURISDICTIONS.MB,
+    },
+    ON: {
+      ...JURISDICTIONS.ON,
+      brackets: [
+        [51_446, 0.0505],
+        [102_894, 0.0915],
+        [150_000, 0.1116],
+        [220_000, 0.1216],
+        [Number.POSITIVE_INFINITY, 0.1316],
+      ],
+      bpa: 12_399,
+      surtax: [
+        [5_554, 0.20],
+        [7_108, 0.36],
+      ],
+    },
+  },
+
+  cpp: {
+    ...CPP_2025,
+    YMPE: 68_500,
+    YAMPE: 73_200,
+  },
+
+  ei: { ...EI_2025, MIE: 63_200, RATE: 0.0166 },
+
+  rrsp: { RATE: 0.18, MAX: 31_560 },
+  oas: { THRESHOLD: 90_997, MAX: 8_618 },
+};
@@ -0,0 +1,110 @@
+// src/engine/taxTables_2026.ts
+import { FEDERAL, JURISDICTIONS } from "./jurisdictions";
+import { CPP_2025 } from "./cppHelpers";
+import { EI_2025 } from "./ei";
+import type { TaxYearTables } from "./taxYears";
+
+/**
+ * 2026 Tax Tables — federal + provinces
+ * - Only amounts that differ from 2025 are listed; rates, DTCs and corporate
+ *   rates are the 2025 values unless overridden below.
+ * - Federal lowest rate drops to 14% (credits are taken at 14% too).
+ */
+
+export const TABLES_2026: TaxYearTables = {
+  year: 2026,
+  projected: false,
+
+  federal: {
+    ...FEDERAL,
+    brackets: [
+      [58_523, 0.14],
+      [117_045, 0.205],
+      [181_440, 0.26],
+      [258_482, 0.29],
+      [Number.POSITIVE_INFINITY, 0.33],
+    ],
+    bpa: 16_452,
+    creditRate: 0.14,
+    credits: {
+      ...FEDERAL.credits,
+      bpaMin: 14_829,
+      canadaEmployment: 1_501,
+      age: { amount: 9_208, threshold: 46_432 },
+      disability: 10_341,
+    },
+  },
+
+  provinces: {
+    BC: {
+      ...JURISDICTIONS.BC,
+      brackets: [
+        [50_363, 0.0506],
+        [100_728, 0.0770],
+        [115_648, 0.1050],
+        [140_430, 0.1229],
+        [190_405, 0.1470],
+        [265_545, 0.1680],
+        [Number.POSITIVE_INFINITY, 0.2050],
+      ],
+      bpa: 13_216,
+      credits: {
+        ...JURISDICTIONS.BC.credits,
+        age: { amount: 5_927, threshold: 44_119 },
+        disability: 9_912,
+        taxReduction: { max: 575, threshold: 25_570, rate: 0.0356 },
+      },
+    },
+    AB: {
+      ...JURISDICTIONS.AB,
+      brackets: [
+        [61_200, 0.08],
+        [154_259, 0.10],
+        [185_111, 0.12],
+        [246_813, 0.13],
+        [370_220, 0.14],
+        [Number.POSITIVE_INFINITY, 0.15],
+      ],
+      bpa: 22_769,
+    },
+    SK: {
+      ...JURISDICTIONS.SK,
+      brackets: [
+        [54_532, 0.105],
+        [155_805, 0.125],
+        [Number.POSITIVE_INFINITY, 0.145],
+      ],
+      bpa: 20_381,
+    },
+    MB: {
+      // brackets and BPA frozen at 2025 levels
+      ...JURISDICTIONS.MB,
+    },
+    ON: {
+      ...JURISDICTIONS.ON,
+      brackets: [
+        [53_891, 0.0505],
+        [107_785, 0.0915],
+        [150_000, 0.1116],
+        [220_000, 0.1216],
+        [Number.POSITIVE_INFINITY, 0.1316],
+      ],
+      bpa: 12_989,
+      surtax: [
+        [5_818, 0.20],
+        [7_446, 0.36],
+      ],
+    },
+  },
+
+  cpp: {
+    ...CPP_2025,
+    YMPE: 74_600,
+    YAMPE: 85_000,
+  },
+
+  ei: { ...EI_2025, MIE: 68_900, RATE: 0.0163 },
+
+  rrsp: { RATE: 0.18, MAX: 33_810 },
+  oas: { THRESHOLD: 95_323, MAX: 8_967 },
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { LATEST_PUBLISHED_YEAR, PUBLISHED_YEARS, getTaxYearTables, resolveTaxRules } from "./taxYears";
+
+describe("getTaxYearTables", () => {
+  it("returns published tables as-is", () => {
+    for (const year of [2024, 2025, 2026]) {
+      const t = getTaxYearTables(year);
+      expect(t.year).toBe(year);
+      expect(t.projected).toBe(false);
+    }
+  });
+
+  it("indexes the latest published year by the inflation rate", () => {
+    const base = getTaxYearTables(LATEST_PUBLISHED_YEAR);
+    const next = getTaxYearTables(LATEST_PUBLISHED_YEAR + 2, 0.03);
+    const factor = 1.03 ** 2;
+
+    expect(next.projected).toBe(true);
+    expect(next.cpp.YMPE).toBe(Math.round(base.cpp.YMPE * factor));
+    expect(next.cpp.YAMPE).toBe(Math.round(base.cpp.YAMPE * factor));
+    expect(next.rrsp.MAX).toBe(Math.round(base.rrsp.MAX * factor));
+    expect(next.federal.bpa).toBe(Math.round(base.federal.bpa * factor));
+    expect(next.provinces.BC.brackets[0][0]).toBe(Math.round(base.provinces.BC.brackets[0][0] * factor));
+    // rates are carried, not indexed
+    expect(next.provinces.BC.brackets.map(([, r]) => r)).toEqual(base.provinces.BC.brackets.map(([, r]) => r));
+    expect(next.federal.brackets.at(-1)![0]).toBe(Number.POSITIVE_INFINITY);
+  });
+
+  it("has each published year's own bracket thresholds", () => {
+    const thresholds = (t: ReturnType<typeof getTaxYearTables>, code: string) =>
+      (code === "FED" ? t.federal : t.provinces[code as "BC"]).brackets.map(([cap]) => cap);
+
+    // Manitoba froze its thresholds at the 2024 amounts; everyone else indexes
+    for (const code of ["FED", "BC", "AB", "SK", "ON"]) {
+      for (let i = 1; i < PUBLISHED_YEARS.length; i++) {
+        const prev = getTaxYearTables(PUBLISHED_YEARS[i - 1]);
+        const next = getTaxYearTables(PUBLISHED_YEARS[i]);
+        expect(thresholds(next, code), `${code} ${next.year}`).not.toEqual(thresholds(prev, code));
+      }
+    }
+  });
+
+  it("refuses years before the first published table", () => {
+    expect(() => getTaxYearTables(2019)).toThrow();
+  });
+});
+
+describe("resolveTaxRules", () => {
+  it("picks one province out of the year's tables", () => {
+    const r = resolveTaxRules("ON", 2024);
+    expect(r.province.code).toBe("ON");
+    expect(r.cpp.YMPE).toBe(68_500);
+  });
+});
@@ -0,0 +1,172 @@
+// src/engine/taxYears.ts
+import {
+  FEDERAL,
+  JURISDICTIONS,
+  type Brackets,
+  type CreditTable,
+  type Jurisdiction,
+  type ProvinceCode,
+} from "./jurisdictions";
+import { CPP_2025, type CppRates } from "./cppHelpers";
+import { EI_2025, type EiRates } from "./ei";
+import { OAS, RRSP } from "./taxTables_2025_BC";
+import { TABLES_2024 } from "./taxTables_2024";
+import { TABLES_2026 } from "./taxTables_2026";
+
+/**
+ * Tax-year registry
+ * - One table set per published year: federal + every province, CPP ceilings, RRSP cap.
+ * - Years after the latest published one are PROJECTED: the latest table is indexed by an
+ *   assumed inflation rate (bracket thresholds, BPA, credit amounts and thresholds, surtax
+ *   thresholds, YMPE/YAMPE, EI maximum insurable earnings, RRSP cap, OAS threshold and pension,
+ *   workers' comp maximum assessable earnings). Rates, DTCs, health premiums, corporate limits
+ *   and the employer health tax exemption are carried forward unchanged.
+ */
+
+export type TaxYearTables = {
+  year: number;
+  projected: boolean;
+  federal: Jurisdiction;
+  provinces: Record<ProvinceCode, Jurisdiction>;
+  cpp: CppRates;
+  ei: EiRates;
+  rrsp: { RATE: number; MAX: number };
+  oas: { THRESHOLD: number; MAX: number };
+};
+
+/** Everything one calculation needs: a single year, a single province */
+export type TaxRules = {
+  year: number;
+  projected: boolean;
+  federal: Jurisdiction;
+  province: Jurisdiction;
+  cpp: CppRates;
+  ei: EiRates;
+  rrsp: { RATE: number; MAX: number };
+  oas: { THRESHOLD: number; MAX: number };
+};
+
+export const DEFAULT_TAX_YEAR = 2025;
+export const DEFAULT_INFLATION_RATE = 0.02; // 2% / year for projected years
+
+const TABLES_2025: TaxYearTables = {
+  year: 2025,
+  projected: false,
+  federal: FEDERAL,
+  provinces: JURISDICTIONS,
+  cpp: CPP_2025,
+  ei: EI_2025,
+  rrsp: { RATE: RRSP.RATE, MAX: RRSP.MAX_2025 },
+  oas: { THRESHOLD: OAS.THRESHOLD_2025, MAX: OAS.MAX_2025 },
+};
+
+const PUBLISHED: Record<number, TaxYearTables> = {
+  2024: TABLES_2024,
+  2025: TABLES_2025,
+  2026: TABLES_2026,
+};
+
+export const PUBLISHED_YEARS = Object.keys(PUBLISHED).map(Number).sort((a, b) => a - b);
+export const LATEST_PUBLISHED_YEAR = PUBLISHED_YEARS[PUBLISHED_YEARS.length - 1];
+
+/* ---------- projection helpers ---------- */
+
+const indexAmount = (amount: number, factor: number) =>
+  Number.isFinite(amount) ? Math.round(amount * factor) : amount;
+
+const indexBrackets = (brackets: Brackets, factor: number): Brackets =>
+  brackets.map(([cap, rate]) => [indexAmount(cap, factor), rate]);
+
+function indexCredits(c: CreditTable, factor: number): CreditTable {
+  return {
+    ...c,
+    bpaMin: c.bpaMin != null ? indexAmount(c.bpaMin, factor) : undefined,
+    canadaEmployment: c.canadaEmployment != null ? indexAmount(c.canadaEmployment, factor) : undefined,
+    age: { amount: indexAmount(c.age.amount, factor), threshold: indexAmount(c.age.threshold, factor) },
+    disability: indexAmount(c.disability, factor),
+    taxReduction: c.taxReduction && {
+      ...c.taxReduction,
+      max: indexAmount(c.taxReduction.max, factor),
+      threshold: indexAmount(c.taxReduction.threshold, factor),
+    },
+  };
+}
+
+function indexJurisdiction(j: Jurisdiction, factor: number): Jurisdiction {
+  return {
+    ...j,
+    brackets: indexBrackets(j.brackets, factor),
+    bpa: indexAmount(j.bpa, factor),
+    credits: indexCredits(j.credits, factor),
+    surtax: j.surtax?.map(([threshold, rate]) => [indexAmount(threshold, factor), rate]),
+    payroll: j.payroll && {
+      ...j.payroll,
+      maxAssessableEarnings: indexAmount(j.payroll.maxAssessableEarnings, factor),
+    },
+  };
+}
+
+function projectTables(base: TaxYearTables, year: number, inflationRate: number): TaxYearTables {
+  const factor = Math.pow(1 + inflationRate, year - base.year);
+
+  const provinces = Object.fromEntries(
+    Object.entries(base.provinces).map(([code, j]) => [code, indexJurisdiction(j, factor)])
+  ) as Record<ProvinceCode, Jurisdiction>;
+
+  return {
+    year,
+    projected: true,
+    federal: indexJurisdiction(base.federal, factor),
+    provinces,
+    cpp: {
+      ...base.cpp,
+      YMPE: indexAmount(base.cpp.YMPE, factor),
+      YAMPE: indexAmount(base.cpp.YAMPE, factor),
+    },
+    ei: { ...base.ei, MIE: indexAmount(base.ei.MIE, factor) },
+    rrsp: { ...base.rrsp, MAX: indexAmount(base.rrsp.MAX, factor) },
+    oas: { THRESHOLD: indexAmount(base.oas.THRESHOLD, factor), MAX: indexAmount(base.oas.MAX, factor) },
+  };
+}
+
+/* ---------- public API ---------- */
+
+/** Tables for a year: published if we have them, otherwise projected from the latest published year. */
+export function getTaxYearTables(
+  year: number = DEFAULT_TAX_YEAR,
+  inflationRate: number = DEFAULT_INFLATION_RATE
+): TaxYearTables {
+  const published = PUBLISHED[year];
+  if (published) return published;
+
+  if (year > LATEST_PUBLISHED_YEAR) {
+    return projectTables(PUBLISHED[LATEST_PUBLISHED_YEAR], year, inflationRate);
+  }
+  throw new Error(`No tax tables for ${year} (earliest is ${PUBLISHED_YEARS[0]})`);
+}
+
+export function isProjectedYear(year: number) {
+  return year > LATEST_PUBLISHED_YEAR;
+}
+
+/** Resolve the federal + provincial rules for one calculation. */
+export function resolveTaxRules(
+  province: ProvinceCode = "BC",
+  year: number = DEFAULT_TAX_YEAR,
+  inflationRate: number = DEFAULT_INFLATION_RATE
+): TaxRules {
+  const t = getTaxYearTables(year, inflationRate);
+  const prov = t.provinces[province];
+  if (!prov) throw new Error(`Unsupported province: ${province}`);
+
+  return {
+    year: t.year,
+    projected: t.projected,
+    federal: t.federal,
+    province: prov,
+    cpp: t.cpp,
+    ei: t.ei,
+    rrsp: t.rrsp,
+    oas: t.oas,
+  };
+}
@@ -1,13 +1,58 @@
+import type { CreditValues } from "./credits";
+import type { EiStatus } from "./ei";
+import type { InvestmentIncome, RdtohBalances } from "./investmentIncome";
+import type { IppParams } from "./ipp";
+import type { ProvinceCode } from "./jurisdictions";
+
 // Shared input for all scenarios
 export type CalcInput = {
   businessIncome: number;
   personalCashNeeded: number;   // <-- new
-  province: "BC";
-  taxYear: 2025;
+  otherExpenses?: number;       // corporate expenses (incorporated scenarios only)
+  province: ProvinceCode;
+  taxYear: number;              // published years, or later years projected by inflationRate
+  inflationRate?: number;       // only used for projected years (default 2%)
+  mixObjective?: MixObjective;  // INC_MIXED only (default MIN_TAX_AND_CPP)
+  priorYearInvestmentIncome?: number; // corp's prior-year AAII — grinds the small-business limit
+  investmentIncome?: InvestmentIncome; // corporate portfolio income (incorporated scenarios only)
+  openingRdtoh?: RdtohBalances;        // RDTOH carried into the year
+  openingCda?: number;                 // capital dividend account carried into the year
+  rrspContribution?: number;           // deducted up to the available room
+  rrspContributeAllRoom?: boolean;     // contribute all available room instead
+  rrspCarryForwardRoom?: number;       // unused room from prior years
+  ipp?: IppParams;                     // INC_SALARY only: fund an Individual Pension Plan
+  age?: number;                        // owner's age: full OAS from 65 (clawback check)
+  oasPension?: number;                 // OAS received this year (overrides the age default)
+  amtCarryForward?: number;            // AMT credit carried in from prior years
+  pensionIncome?: number;              // eligible pension income (pension credit only)
+  disability?: boolean;                // claims the disability amount
+  tuition?: number;                    // eligible tuition fees paid this year
+  eiStatus?: EiStatus;                 // owner's salary: insurable? (default OWNER_OVER_40)
+  eiSelfEmployedOptIn?: boolean;       // UNINCORPORATED only: opted into EI special benefits
+  worksafeRate?: number;               // salary scenarios (BC): WorkSafeBC rate, $ per $100 of payroll
 };
 
+// RRSP inputs, as the personal-tax helpers take them
+export type RrspParams = Pick<CalcInput, "rrspContribution" | "rrspContributeAllRoom" | "rrspCarryForwardRoom">;
+
+// Owner's personal situation for the return (credits, AMT carry-forward, OAS clawback)
+export type PersonalProfile = Pick<
+  CalcInput,
+  "age" | "oasPension" | "amtCarryForward" | "pensionIncome" | "disability" | "tuition"
+>;
+
+// Everything the personal-tax helpers take from the input
+export type PersonalParams = RrspParams & PersonalProfile & Pick<CalcInput, "eiStatus" | "eiSelfEmployedOptIn">;
+
+// What each calculator accepts: province/year default to BC 2025
+export type CalcParams =
+  Omit<CalcInput, "province" | "taxYear"> & Partial<Pick<CalcInput, "province" | "taxYear">>;
+
 // All scenarios we’ll support
-export type Scenario = "UNINCORPORATED" | "INC_SALARY" | "INC_DIVIDENDS";
+export type Scenario = "UNINCORPORATED" | "INC_SALARY" | "INC_DIVIDENDS" | "INC_MIXED";
+
+// What the salary/dividend mix optimizer (INC_MIXED) searches for
+export type MixObjective = "MIN_TAX_AND_CPP" | "MAX_TOTAL_CASH";
 
 // Unified output shape (works for all scenarios)
 export type ScenarioOutput = {
@@ -16,25 +61,48 @@ export type ScenarioOutput = {
   grossSalary: number;          // 0 if N/A
   eligibleDividends: number;    // 0 if N/A
   nonEligibleDividends: number; // 0 if N/A
+  capitalDividends: number;     // tax-free, out of the CDA (0 if N/A)
 
-  corporateTaxes: number;
+  corporateTaxes: number;       // incl. investment taxes, net of dividend refunds
   corporateCPP: number;
+  investmentTaxes: number;      // Part I + Part IV on corporate investment income
+  dividendRefund: number;       // RDTOH refunded because dividends were paid
 
   personalTaxes: number;
   totalTaxes: number;
   totalCPP: number;
   personalCPP: number;
+  personalEI: number;           // employee / self-employed premiums (0 if not insurable)
+  corporateEI: number;          // employer premiums, 1.4× (deductible to the corp)
+  totalEI: number;
+  employerHealthTax: number;    // BC EHT on the salary, deductible to the corp (0 if N/A)
+  worksafePremium: number;      // WorkSafeBC premium on the salary (0 if N/A)
 
   corporateCash: number;
   personalCash: number;
   totalCash: number;
   totalTaxRate: number;
   rrspRoom: number;
+  rrspContribution: number;     // deducted this year (paid out of personal cash)
+  rrspRefund: number;           // tax saved by the deduction
+  rrspSaved: number;            // contribution moved into the RRSP (out of personalCash, in totalCash)
+  pensionContribution: number;  // IPP funding deducted by the corp (0 if N/A)
+  pensionAdjustment: number;    // reduces RRSP room (0 if N/A)
+  rdtohEligible: number;        // closing RDTOH balances (after refunds)
+  rdtohNonEligible: number;
+  cdaBalance: number;           // closing CDA (after capital dividends)
+  amt: number;                  // federal AMT paid this year (in personal/federal tax)
+  amtCarryForward: number;      // closing AMT credit for later years
+  oasClawback: number;          // OAS recovery tax (in personal/federal tax)
+  credits: CreditValues;        // non-refundable credits claimed, itemized ($ of tax)
 
   // helpers
   federalTax: number;
   provincialTax: number;
   taxableIncome: number;
+
+  // flags
+  _cappedByAfterTaxProfit?: boolean; // couldn't reach personalCashNeeded from corporate cash
 };
 
 // --- Back-compat so the current UI keeps compiling ---
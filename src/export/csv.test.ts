@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv, toCsv } from "./csv";
+
+describe("toCsv → parseCsv", () => {
+  it("round-trips commas, quotes and newlines in values", () => {
+    const rows = [
+      { id: "Smith, Jane", note: 'said "incorporate"', address: "1 Main St\nSuite 2" },
+      { id: "plain", note: "", address: "a\r\nb" },
+    ];
+    const back = parseCsv(toCsv(rows));
+    expect(back).toEqual([
+      { id: "Smith, Jane", note: 'said "incorporate"', address: "1 Main St\nSuite 2" },
+      { id: "plain", note: "", address: "a\r\nb" },
+    ]);
+  });
+
+  it("quotes only the fields that need it", () => {
+    expect(toCsv([{ a: "x,y", b: 'q"', c: "plain", d: 12.5 }])).toBe('a,b,c,d\n"x,y","q""",plain,12.5\n');
+  });
+
+  it("takes the header from every row's keys, or the given columns", () => {
+    const rows = [{ a: 1 }, { b: true, a: null }];
+    expect(toCsv(rows)).toBe("a,b\n1,\n,true\n");
+    expect(toCsv(rows, ["b"])).toBe("b\n\ntrue\n");
+  });
+});
+
+describe("parseCsv", () => {
+  it("reads CRLF files, trims values and skips blank lines", () => {
+    const text = "id , businessIncome\r\n a ,150000\r\n\r\n,\r\nb,90000";
+    expect(parseCsv(text)).toEqual([
+      { id: "a", businessIncome: "150000" },
+      { id: "b", businessIncome: "90000" },
+    ]);
+  });
+
+  it("fills short rows with empty strings", () => {
+    expect(parseCsv("a,b,c\n1\n")).toEqual([{ a: "1", b: "", c: "" }]);
+  });
+
+  it("returns no rows for an empty file", () => {
+    expect(parseCsv("")).toEqual([]);
+    expect(parseCsv("\n\n")).toEqual([]);
+  });
+});
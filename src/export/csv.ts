@@ -0,0 +1,53 @@
+// src/export/csv.ts
+
+/**
+ * Minimal RFC 4180 CSV read/write (quoted fields, escaped quotes, CRLF or LF).
+ * First row is the header; rows come back as header → value records.
+ */
+
+export function parseCsv(text: string): Array<Record<string, string>> {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      row.push(field); field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(field); field = "";
+      rows.push(row); row = [];
+    } else {
+      field += c;
+    }
+  }
+  if (field !== "" || row.length > 0) { row.push(field); rows.push(row); }
+
+  const [header, ...body] = rows.filter((r) => r.some((v) => v.trim() !== ""));
+  if (!header) return [];
+  const keys = header.map((h) => h.trim());
+
+  return body.map((r) =>
+    Object.fromEntries(keys.map((k, idx) => [k, (r[idx] ?? "").trim()]))
+  );
+}
+
+function escapeField(v: unknown): string {
+  const s = v == null ? "" : String(v);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function toCsv(rows: Array<Record<string, unknown>>, columns?: string[]): string {
+  const cols = columns ?? Array.from(new Set(rows.flatMap((r) => Object.keys(r))));
+  const lines = [cols.map(escapeField).join(",")];
+  for (const r of rows) lines.push(cols.map((c) => escapeField(r[c])).join(","));
+  return lines.join("\n") + "\n";
+}
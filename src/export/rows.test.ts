@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { LATEST_PUBLISHED_YEAR, SCENARIOS, calculateAllScenarios, recommendScenario, type CalcInput } from "../engine";
+import { flatInput, roundFields, scenarioRows, scenarioWorkbook, taxYearMeta } from "./rows";
+
+const input: CalcInput = {
+  businessIncome: 180_000,
+  personalCashNeeded: 90_000,
+  province: "BC",
+  taxYear: 2025,
+  investmentIncome: { interest: 1_000, foreignIncome: 0, capitalGains: 0, canadianDividends: 0 },
+  ipp: { age: 50, yearsOfService: 10 },
+};
+const results = calculateAllScenarios(input);
+const recommended = recommendScenario(results);
+
+describe("scenarioRows", () => {
+  const rows = scenarioRows(input, results, recommended);
+
+  it("gives one row per scenario, flagging the recommended one", () => {
+    expect(rows.map((r) => r.scenario)).toEqual(SCENARIOS);
+    expect(rows.filter((r) => r.recommended)).toHaveLength(1);
+    expect(rows.every((r) => r.recommendedScenario === recommended?.scenario)).toBe(true);
+  });
+
+  it("repeats the flattened inputs and tax-year metadata on every row", () => {
+    for (const r of rows) {
+      expect(r.businessIncome).toBe(180_000);
+      expect(r.interest).toBe(1_000);
+      expect(r.ippAge).toBe(50);
+      expect(r.provinceName).toBe("British Columbia");
+      expect(r.rulesProjected).toBe(false);
+    }
+  });
+
+  it("itemizes credits as creditXxx columns", () => {
+    const row = rows[0] as Record<string, unknown>;
+    expect(row).not.toHaveProperty("credits");
+    for (const key of ["creditBasicPersonal", "creditCanadaEmployment", "creditCpp", "creditEi", "creditTaxReduction"]) {
+      expect(typeof row[key], key).toBe("number");
+    }
+    expect(row.creditBasicPersonal).toBe(Number(results[SCENARIOS[0]].credits.basicPersonal.toFixed(2)));
+  });
+
+  it("rounds money to cents and rates to 6 decimals", () => {
+    for (const [i, row] of rows.entries()) {
+      const r = row as Record<string, unknown>;
+      const out = results[SCENARIOS[i]];
+      expect(r.personalCash).toBe(Number(out.personalCash.toFixed(2)));
+      expect(r.totalTaxRate).toBe(Number(out.totalTaxRate.toFixed(6)));
+    }
+  });
+
+  it("leaves the recommendation blank without one", () => {
+    expect(scenarioRows(input, results).every((r) => !r.recommended && r.recommendedScenario === "")).toBe(true);
+  });
+});
+
+describe("roundFields", () => {
+  it("rounds numbers by field name and passes everything else through", () => {
+    expect(
+      roundFields({ personalCash: 1_234.5678, totalTaxRate: 0.123456789, flag: true, name: "x", inf: Infinity })
+    ).toEqual({ personalCash: 1_234.57, totalTaxRate: 0.123457, flag: true, name: "x", inf: Infinity });
+  });
+});
+
+describe("flatInput / taxYearMeta", () => {
+  it("flattens nested inputs with defaults", () => {
+    const flat = flatInput({ businessIncome: 1, personalCashNeeded: 1, province: "ON", taxYear: 2025 });
+    expect(flat).toMatchObject({ openingRdtohEligible: 0, openingRdtohNonEligible: 0, ippAge: "", ippYearsOfService: "" });
+    expect(flat).not.toHaveProperty("ipp");
+  });
+
+  it("names the base year of projected rules", () => {
+    expect(taxYearMeta({ ...input, taxYear: LATEST_PUBLISHED_YEAR + 3 })).toEqual({
+      provinceName: "British Columbia",
+      rulesProjected: true,
+      rulesBaseYear: LATEST_PUBLISHED_YEAR,
+    });
+  });
+});
+
+describe("scenarioWorkbook", () => {
+  it("lists every output field down the side, one column per scenario", () => {
+    const [scenarios, inputs, year] = scenarioWorkbook(input, results, recommended, new Date("2025-06-01T00:00:00Z"));
+    expect(scenarios.rows[0]).toEqual(["Field", ...SCENARIOS]);
+    expect(scenarios.rows.map((r) => r[0])).toContain("creditBasicPersonal");
+    expect(scenarios.rows.at(-1)).toEqual(["recommended", ...SCENARIOS.map((s) => s === recommended?.scenario)]);
+    expect(inputs.rows).toContainEqual(["businessIncome", 180_000]);
+    expect(year.rows).toContainEqual(["exportedAt", "2025-06-01T00:00:00.000Z"]);
+  });
+});
@@ -0,0 +1,121 @@
+// src/export/rows.ts
+import {
+  JURISDICTIONS,
+  LATEST_PUBLISHED_YEAR,
+  SCENARIOS,
+  isProjectedYear,
+  type CalcInput,
+  type Recommendation,
+  type Scenario,
+  type ScenarioOutput,
+} from "../engine";
+import type { Sheet } from "./xlsx";
+
+/**
+ * Flat export rows — shared by the batch CLI and the Dashboard's CSV / XLSX export
+ * - One row per scenario: the inputs (same column names as the batch input file), which
+ *   tax-year rules were used, the recommendation and every ScenarioOutput field
+ *   (itemized credits as creditXxx columns).
+ * - Money is rounded to cents, rates (…Rate fields) to 6 decimals.
+ */
+
+type Results = Record<Scenario, ScenarioOutput>;
+
+/** CalcInput as flat columns (same names as the batch input file) */
+export function flatInput({ investmentIncome, openingRdtoh, ipp, ...rest }: CalcInput) {
+  return {
+    ...rest,
+    ...investmentIncome,
+    openingRdtohEligible: openingRdtoh?.eligible ?? 0,
+    openingRdtohNonEligible: openingRdtoh?.nonEligible ?? 0,
+    ippAge: ipp?.age ?? "",
+    ippYearsOfService: ipp?.yearsOfService ?? "",
+  };
+}
+
+/** Itemized credits as creditBasicPersonal, creditCanadaEmployment, … columns */
+export function flatCredits(credits: ScenarioOutput["credits"]) {
+  return Object.fromEntries(
+    Object.entries(credits).map(([k, v]) => [`credit${k[0].toUpperCase()}${k.slice(1)}`, v])
+  );
+}
+
+/** Cents for money, 6 decimals for rates (…Rate fields) */
+export function roundFields(fields: Record<string, unknown>) {
+  return Object.fromEntries(
+    Object.entries(fields).map(([k, v]) => [
+      k,
+      typeof v === "number" && Number.isFinite(v) ? Number(v.toFixed(/Rate$/.test(k) ? 6 : 2)) : v,
+    ])
+  );
+}
+
+/** Every ScenarioOutput field as flat, rounded columns */
+export function flatOutput({ scenario: _s, credits, ...fields }: ScenarioOutput) {
+  return roundFields({ ...fields, ...flatCredits(credits) });
+}
+
+/** Which rules the numbers came from: published tables, or projected from the latest ones */
+export function taxYearMeta(input: CalcInput) {
+  const projected = isProjectedYear(input.taxYear);
+  return {
+    provinceName: JURISDICTIONS[input.province].name,
+    rulesProjected: projected,
+    rulesBaseYear: projected ? LATEST_PUBLISHED_YEAR : input.taxYear,
+  };
+}
+
+/** One flat row per scenario */
+export function scenarioRows(input: CalcInput, results: Results, recommended?: Recommendation | null) {
+  return SCENARIOS.map((scenario) => ({
+    ...flatInput(input),
+    ...taxYearMeta(input),
+    scenario,
+    recommended: recommended?.scenario === scenario,
+    recommendedScenario: recommended?.scenario ?? "",
+    ...flatOutput(results[scenario]),
+  }));
+}
+
+/**
+ * Workbook layout for working papers: every output field down the side, one column per
+ * scenario; inputs and tax-year metadata on their own sheets.
+ */
+export function scenarioWorkbook(
+  input: CalcInput,
+  results: Results,
+  recommended?: Recommendation | null,
+  exportedAt = new Date()
+): Sheet[] {
+  const outputs = SCENARIOS.map((s) => flatOutput(results[s]));
+  const fields = Object.keys(outputs[0]);
+
+  return [
+    {
+      name: "Scenarios",
+      widths: [28, 18, 18, 18, 18],
+      rows: [
+        ["Field", ...SCENARIOS],
+        ...fields.map((f) => [f, ...outputs.map((o) => o[f] as number | boolean | undefined)]),
+        ["recommended", ...SCENARIOS.map((s) => recommended?.scenario === s)],
+      ],
+    },
+    {
+      name: "Inputs",
+      widths: [28, 18],
+      rows: [["Input", "Value"], ...Object.entries(flatInput(input)).map(([k, v]) => [k, v])],
+    },
+    {
+      name: "Tax Year",
+      widths: [28, 24],
+      rows: [
+        ["Item", "Value"],
+        ["taxYear", input.taxYear],
+        ["province", input.province],
+        ...Object.entries(taxYearMeta(input)).map(([k, v]) => [k, v]),
+        ["inflationRate", input.inflationRate ?? ""],
+        ["exportedAt", exportedAt.toISOString()],
+      ],
+    },
+  ];
+}
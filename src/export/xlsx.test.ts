@@ -0,0 +1,89 @@
+import { crc32 } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { toXlsx, type Sheet } from "./xlsx";
+
+type ZipEntry = { name: string; crc: number; localCrc: number; data: Uint8Array };
+
+/** Entries of a STORED zip, from its central directory */
+function readZip(bytes: Uint8Array): ZipEntry[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+  const count = view.getUint16(end + 10, true);
+  let at = view.getUint32(end + 16, true);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(at, true)).toBe(0x02014b50);
+    const crc = view.getUint32(at + 16, true);
+    const size = view.getUint32(at + 20, true);
+    const nameLength = view.getUint16(at + 28, true);
+    const offset = view.getUint32(at + 42, true);
+    const name = decoder.decode(bytes.subarray(at + 46, at + 46 + nameLength));
+
+    expect(view.getUint32(offset, true)).toBe(0x04034b50);
+    const localCrc = view.getUint32(offset + 14, true);
+    const start = offset + 30 + view.getUint16(offset + 26, true) + view.getUint16(offset + 28, true);
+    entries.push({ name, crc, localCrc, data: bytes.subarray(start, start + size) });
+    at += 46 + nameLength;
+  }
+  return entries;
+}
+
+const text = (e: ZipEntry | undefined) => new TextDecoder().decode(e!.data);
+
+const sheets: Sheet[] = [
+  { name: "Scenarios", rows: [["Field", "INC_SALARY"], ["totalCash", 123_456.78], ["recommended", true]], widths: [28, 18] },
+  { name: "R&D <notes>", rows: [["Smith & Sons <Ltd> \"Holdco\""], [null, "", undefined, 1]] },
+];
+
+describe("toXlsx", () => {
+  const entries = readZip(toXlsx(sheets));
+
+  it("writes the package parts, one worksheet per sheet", () => {
+    expect(entries.map((e) => e.name)).toEqual([
+      "[Content_Types].xml",
+      "_rels/.rels",
+      "xl/workbook.xml",
+      "xl/_rels/workbook.xml.rels",
+      "xl/worksheets/sheet1.xml",
+      "xl/worksheets/sheet2.xml",
+    ]);
+  });
+
+  it("stores each entry with the CRC of its bytes (local header and directory)", () => {
+    for (const e of entries) {
+      expect(e.crc, e.name).toBe(crc32(e.data));
+      expect(e.localCrc, e.name).toBe(e.crc);
+    }
+  });
+
+  it("escapes &, < and > in cells and sheet names", () => {
+    const sheet2 = text(entries.find((e) => e.name === "xl/worksheets/sheet2.xml"));
+    expect(sheet2).toContain("Smith &amp; Sons &lt;Ltd&gt; &quot;Holdco&quot;");
+    expect(sheet2).not.toContain("<Ltd>");
+
+    const workbook = text(entries.find((e) => e.name === "xl/workbook.xml"));
+    expect(workbook).toContain('name="R&amp;D &lt;notes&gt;"');
+  });
+
+  it("types numbers and booleans, leaves empty cells out", () => {
+    const sheet1 = text(entries.find((e) => e.name === "xl/worksheets/sheet1.xml"));
+    expect(sheet1).toContain('<c r="B2"><v>123456.78</v></c>');
+    expect(sheet1).toContain('<c r="B3" t="b"><v>1</v></c>');
+    expect(sheet1).toContain('<col min="1" max="1" width="28" customWidth="1"/>');
+
+    const sheet2 = text(entries.find((e) => e.name === "xl/worksheets/sheet2.xml"));
+    expect(sheet2).toContain('<row r="2"><c r="D2"><v>1</v></c></row>');
+  });
+
+  it("cleans sheet names Excel would reject", () => {
+    const [workbook] = readZip(toXlsx([{ name: "a/b:c*" + "x".repeat(40), rows: [] }, { name: "  ", rows: [] }]))
+      .filter((e) => e.name === "xl/workbook.xml")
+      .map(text);
+    expect(workbook).toContain(`name="a b c ${"x".repeat(25)}"`);
+    expect(workbook).toContain('name="Sheet2"');
+  });
+});
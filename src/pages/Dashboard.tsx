@@ -1,259 +1,446 @@
 // src/pages/Dashboard.tsx
-import React, { useMemo, useState } from "react";
-import { calculateUnincorporated } from "@/engine/calcUnincorporated";
-import { calculateIncorporatedSalary } from "@/components/SalaryScenario";
-import { calculateIncorporatedDividends } from "@/components/DividendScenario";
-
-/* ------------ Types (matches what calculators return) ------------ */
-export type ScenarioKey = "uninc" | "salary" | "dividends";
-export interface ScenarioOutput {
-  scenario: ScenarioKey | string;
-  grossSalary?: number;
-  eligibleDividends?: number;
-  nonEligibleDividends?: number;
-  corporateTaxes: number;
-  corporateCPP: number;
-  personalTaxes: number;
-  totalTaxes: number;
-  totalCPP: number;
-  personalCPP: number;
-  corporateCash: number;
-  personalCash: number;
-  totalCash: number;
-  totalTaxRate: number; // 0–1
-  rrspRoom?: number;
-  federalTax?: number;
-  provincialTax?: number;
-  taxableIncome?: number;
-  _cappedByAfterTaxProfit?: boolean;
-}
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  DEFAULT_INFLATION_RATE,
+  JURISDICTIONS,
+  LATEST_PUBLISHED_YEAR,
+  PROVINCES,
+  PUBLISHED_YEARS,
+  calculateScenario,
+  isProjectedYear,
+  recommendScenario,
+  type CalcInput,
+  type EiStatus,
+  type FamilyMember,
+  type InvestmentIncome,
+  type MixObjective,
+  type ProvinceCode,
+  type ScenarioOutput,
+} from "@/engine";
+import { isEmbedded, postResults, setEmbedHandlers, startEmbedBridge } from "@/embed/bridge";
+import type { CalculationResults } from "@/embed/protocol";
+import { toCsv } from "@/export/csv";
+import { downloadFile } from "@/export/download";
+import { scenarioRows, scenarioWorkbook } from "@/export/rows";
+import { XLSX_MIME, toXlsx } from "@/export/xlsx";
+import BreakEvenPanel from "./dashboard/BreakEvenPanel";
+import ClientReport from "./dashboard/ClientReport";
+import HouseholdPanel, { DEFAULT_FAMILY } from "./dashboard/HouseholdPanel";
+import IncomeSweepPanel from "./dashboard/IncomeSweepPanel";
+import MarginalRatesPanel from "./dashboard/MarginalRatesPanel";
+import ProjectionPanel from "./dashboard/ProjectionPanel";
+import SavedScenariosPanel from "./dashboard/SavedScenariosPanel";
+import { readShareLink, shareLinkFor, type SharedInputs } from "./dashboard/shareLink";
+import {
+  BreakdownTable,
+  ComparisonBars,
+  SCENARIO_CARDS,
+  SCENARIO_OF,
+  ScenarioCard,
+  byScenario,
+  type ScenarioKey,
+} from "./dashboard/results";
+import { Label, NumberInput, money, selectClass } from "./dashboard/ui";
 
-/* ------------ Format helpers ------------ */
-const fmt = new Intl.NumberFormat("en-CA", {
-  style: "currency",
-  currency: "CAD",
-  maximumFractionDigits: 0,
-});
-const money = (n: number) => fmt.format(Number.isFinite(n) ? n : 0);
-const pct = (n: number) => `${(((Number.isFinite(n) ? n : 0)) * 100).toFixed(1)}%`;
-
-/* ------------ Small UI atoms ------------ */
-function Label({ children }: { children: React.ReactNode }) {
-  return <label className="text-sm font-medium text-slate-600">{children}</label>;
-}
-function NumberInput({
-  value,
-  onChange,
-  prefix = "$",
-  step = 1000,
-  min = 0,
-}: {
-  value: number;
-  onChange: (n: number) => void;
-  prefix?: string;
-  step?: number;
-  min?: number;
-}) {
-  return (
-    <div className="relative">
-      {prefix && (
-        <span className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400">
-          {prefix}
-        </span>
-      )}
-      <input
-        type="number"
-        inputMode="decimal"
-        className="w-full rounded-2xl border border-slate-200 bg-white px-4 py-3 pl-9 shadow-sm outline-none focus:ring-2 focus:ring-indigo-500/30"
-        value={isFinite(value) ? value : 0}
-        step={step}
-        min={min}
-        onChange={(e) => onChange(Number(e.target.value))}
-      />
-    </div>
-  );
-}
+/* ------------ Year-over-year comparison ------------ */
+const YEAR_OPTIONS = [
+  ...PUBLISHED_YEARS,
+  ...[1, 2, 3, 4, 5].map((n) => LATEST_PUBLISHED_YEAR + n), // projected
+];
+const yearLabel = (y: number) => (isProjectedYear(y) ? `${y} (projected)` : String(y));
 
-/* ------------ Scenario card (shows split on Dividends) ------------ */
-function ScenarioCard({
-  title,
-  color,
-  data,
+function YearOverYear({
+  year,
+  compareYear,
+  current,
+  previous,
 }: {
-  title: string;
-  color: string;
-  data?: ScenarioOutput;
+  year: number;
+  compareYear: number;
+  current: Record<ScenarioKey, ScenarioOutput>;
+  previous: Record<ScenarioKey, ScenarioOutput>;
 }) {
+  const rows: Array<{ key: ScenarioKey; label: string }> = [
+    { key: "uninc", label: "Not Incorporated" },
+    { key: "salary", label: "Inc. Salary" },
+    { key: "dividends", label: "Inc. Dividends" },
+    { key: "mixed", label: "Inc. Mix" },
+  ];
+  const taxAndCpp = (r: ScenarioOutput) => r.totalTaxes + r.totalCPP;
+  const delta = (n: number) => (n > 0 ? "+" : "") + money(n);
+
   return (
     <div className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm">
-      <div className="mb-3 flex items-center justify-between">
-        <h3 className="text-sm font-semibold text-slate-700 whitespace-nowrap">
-          {title}
-        </h3>
-        <span className="h-2 w-2 rounded-full" style={{ background: color }} />
+      <h3 className="mb-4 text-sm font-semibold text-slate-700">
+        Year over Year ({yearLabel(compareYear)} → {yearLabel(year)})
+      </h3>
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-left text-sm">
+          <thead>
+            <tr className="border-b border-slate-200 text-slate-500">
+              <th className="py-2 pr-4 font-medium">Scenario</th>
+              <th className="py-2 pr-4 font-medium">Tax + CPP {compareYear}</th>
+              <th className="py-2 pr-4 font-medium">Tax + CPP {year}</th>
+              <th className="py-2 pr-4 font-medium">Change</th>
+              <th className="py-2 pr-4 font-medium">Total Cash {compareYear}</th>
+              <th className="py-2 pr-4 font-medium">Total Cash {year}</th>
+              <th className="py-2 pr-2 font-medium">Change</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {rows.map((r) => {
+              const prev = previous[r.key];
+              const cur = current[r.key];
+              return (
+                <tr key={r.key}>
+                  <td className="py-2 pr-4 text-slate-600">{r.label}</td>
+                  <td className="py-2 pr-4 font-medium text-slate-800">{money(taxAndCpp(prev))}</td>
+                  <td className="py-2 pr-4 font-medium text-slate-800">{money(taxAndCpp(cur))}</td>
+                  <td className="py-2 pr-4 font-medium text-slate-800">
+                    {delta(taxAndCpp(cur) - taxAndCpp(prev))}
+                  </td>
+                  <td className="py-2 pr-4 font-medium text-slate-800">{money(prev.totalCash)}</td>
+                  <td className="py-2 pr-4 font-medium text-slate-800">{money(cur.totalCash)}</td>
+                  <td className="py-2 pr-2 font-medium text-slate-800">
+                    {delta(cur.totalCash - prev.totalCash)}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
       </div>
-
-      {!data ? (
-        <div className="text-sm text-slate-500">Enter inputs and click Calculate.</div>
-      ) : (
-        <>
-          <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
-            {[
-              ["Total Taxes", money(data.totalTaxes)],
-              ["Effective Rate", pct(data.totalTaxRate)],
-              ["Personal Cash", money(data.personalCash)],
-              ["Corporate Cash", money(data.corporateCash)],
-            ].map(([label, val]) => (
-              <div key={label}>
-                <div className="text-[10px] font-semibold tracking-wide text-slate-500/90 uppercase whitespace-nowrap">
-                  {label}
-                </div>
-                <div className="mt-0.5 text-lg font-semibold text-slate-900 tabular-nums whitespace-nowrap">
-                  {val}
-                </div>
-              </div>
-            ))}
-          </div>
-
-          {/* If dividends scenario, show split caption */}
-          {typeof (data as any)?.eligibleDividends === "number" &&
-            typeof (data as any)?.nonEligibleDividends === "number" && (
-              <div className="mt-2 text-xs text-slate-600">
-                <span className="mr-4">
-                  Non-eligible:{" "}
-                  <span className="font-medium tabular-nums">
-                    {money((data as any).nonEligibleDividends)}
-                  </span>
-                </span>
-                <span>
-                  Eligible:{" "}
-                  <span className="font-medium tabular-nums">
-                    {money((data as any).eligibleDividends)}
-                  </span>
-                </span>
-              </div>
-            )}
-        </>
-      )}
     </div>
   );
 }
 
-/* ------------ Simple CSS bar comparison (hardened) ------------ */
-function ComparisonBars({
-  results,
-}: {
-  results: Record<ScenarioKey, ScenarioOutput>;
-}) {
-  const val = (v: unknown) => (Number.isFinite(v as number) ? (v as number) : 0);
-
-  const maxTax =
-    Math.max(
-      val(results.uninc?.totalTaxes),
-      val(results.salary?.totalTaxes),
-      val(results.dividends?.totalTaxes)
-    ) || 1;
-
-  const rows: Array<{ key: ScenarioKey; label: string; color: string }> = [
-    { key: "uninc", label: "Not Incorporated", color: "#fb7185" },
-    { key: "salary", label: "Incorporated – Salary", color: "#60a5fa" },
-    { key: "dividends", label: "Incorporated – Dividends", color: "#34d399" },
-  ];
+/* ------------ Main Dashboard ------------ */
+type DashboardProps = {
+  inputs?: SharedInputs;                                  // widget: from the element's attributes
+  onResults?: (calculation: CalculationResults) => void;  // widget: every calculation
+};
+
+export default function Dashboard({ inputs, onResults }: DashboardProps = {}) {
+  const widget = inputs !== undefined;
+
+  // Opened from a share link? Its inputs replace the defaults and the calculation runs on load.
+  // Loading a saved scenario (or a prefill from the embedding page) does the same: a fresh
+  // DashboardView seeded with its inputs. The widget starts from its attributes only: the
+  // address bar and storage belong to the host page, so it never reads or writes them.
+  const [loaded, setLoaded] = useState(() => {
+    const shared = widget ? inputs : readShareLink(window.location.hash);
+    return { shared, calculate: shared != null, key: 0 };
+  });
+
+  const handleLoad = (shared: SharedInputs, calculate = true) => {
+    // A share link in the address bar no longer matches the inputs
+    if (!widget && readShareLink(window.location.hash)) {
+      window.history.replaceState(null, "", window.location.pathname + window.location.search);
+    }
+    setLoaded((l) => ({ shared, calculate, key: l.key + 1 }));
+  };
+
+  // In an iframe, the host page can talk to the calculator (src/embed); the widget uses DOM events
+  useEffect(() => {
+    if (!widget) startEmbedBridge();
+  }, []);
 
   return (
-    <div className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm">
-      <h3 className="mb-4 text-sm font-semibold text-slate-700">Tax & CPP Comparison</h3>
-      <div className="flex flex-col gap-3">
-        {rows.map((r) => {
-          const tax = val(results[r.key]?.totalTaxes) + val(results[r.key]?.totalCPP);
-          const w = Math.max(6, Math.round((tax / maxTax) * 100));
-          return (
-            <div key={r.key} className="flex items-center gap-3">
-              <div className="w-40 text-xs text-slate-600">{r.label}</div>
-              <div className="h-8 flex-1 rounded-full bg-slate-100">
-                <div
-                  className="h-8 rounded-full"
-                  style={{ width: `${w}%`, background: r.color }}
-                  title={money(tax)}
-                />
-              </div>
-              <div className="w-28 text-right text-sm font-medium text-slate-800">
-                {money(tax)}
-              </div>
-            </div>
-          );
-        })}
-      </div>
-    </div>
+    <DashboardView
+      key={loaded.key}
+      shared={loaded.shared}
+      calculate={loaded.calculate}
+      widget={widget}
+      fitContent={widget || isEmbedded()}
+      onLoad={handleLoad}
+      onResults={onResults}
+    />
   );
 }
 
-/* ------------ Main Dashboard ------------ */
-export default function Dashboard() {
-  // Fixed: BC, 2025 rules
-  const [businessIncome, setBusinessIncome] = useState(150_000);
-  const [personalCashNeeded, setPersonalCashNeeded] = useState(100_000);
+function DashboardView({
+  shared,
+  calculate,
+  widget,
+  fitContent,
+  onLoad,
+  onResults,
+}: {
+  shared: SharedInputs | null;
+  calculate: boolean;   // run the calculation on mount
+  widget: boolean;      // on someone else's page: no share links, no saved-scenario library
+  fitContent: boolean;  // embedded: as tall as the content, not the viewport
+  onLoad: (shared: SharedInputs, calculate?: boolean) => void;
+  onResults?: (calculation: CalculationResults) => void;
+}) {
+  const init = shared?.input ?? {};
+
+  // Province + tax year selectable (future years are projected by inflation)
+  const [province, setProvince] = useState<ProvinceCode>(init.province ?? "BC");
+  const [taxYear, setTaxYear] = useState(init.taxYear ?? 2025);
+  const [inflationPct, setInflationPct] = useState((init.inflationRate ?? DEFAULT_INFLATION_RATE) * 100);
+  const [compareYear, setCompareYear] = useState<number | null>(shared?.compareYear ?? null);
+  const [businessIncome, setBusinessIncome] = useState(init.businessIncome ?? 150_000);
+  const [personalCashNeeded, setPersonalCashNeeded] = useState(init.personalCashNeeded ?? 100_000);
+  const [mixObjective, setMixObjective] = useState<MixObjective>(init.mixObjective ?? "MIN_TAX_AND_CPP");
+  const [eiStatus, setEiStatus] = useState<EiStatus>(init.eiStatus ?? "OWNER_OVER_40");
+  const [eiSelfEmployedOptIn, setEiSelfEmployedOptIn] = useState(init.eiSelfEmployedOptIn ?? false);
+  const [worksafeRate, setWorksafeRate] = useState(init.worksafeRate ?? 0); // $ per $100 of payroll (BC)
+  // Corporate investment portfolio (incorporated scenarios)
+  const [investment, setInvestment] = useState<Required<InvestmentIncome>>({
+    interest: 0,
+    foreignIncome: 0,
+    capitalGains: 0,
+    canadianDividends: 0,
+    ...init.investmentIncome,
+  });
+  const [openingRdtoh, setOpeningRdtoh] = useState(init.openingRdtoh ?? { eligible: 0, nonEligible: 0 });
+  const [openingCda, setOpeningCda] = useState(init.openingCda ?? 0);
+  const [householdMode, setHouseholdMode] = useState(shared?.householdMode ?? false);
+  const [family, setFamily] = useState<FamilyMember[]>(shared?.family ?? DEFAULT_FAMILY);
+  // RRSP: a fixed contribution, or all available room
+  const [rrspContribution, setRrspContribution] = useState(init.rrspContribution ?? 0);
+  const [rrspContributeAllRoom, setRrspContributeAllRoom] = useState(init.rrspContributeAllRoom ?? false);
+  const [rrspCarryForwardRoom, setRrspCarryForwardRoom] = useState(init.rrspCarryForwardRoom ?? 0);
+  // Owner's age, one value for the IPP, OAS (clawback) and the age amount; 0 = not set
+  const [ownerAge, setOwnerAge] = useState(init.age ?? init.ipp?.age ?? 0);
+  // Individual Pension Plan (salary scenario), funded at the owner's age
+  const [ippEnabled, setIppEnabled] = useState(init.ipp != null);
+  const [ippYearsOfService, setIppYearsOfService] = useState(init.ipp?.yearsOfService ?? 10);
+  // Owner's return: OAS received, AMT credit carried in, optional credits
+  const [oasPension, setOasPension] = useState(init.oasPension ?? 0);
+  const [amtCarryForward, setAmtCarryForward] = useState(init.amtCarryForward ?? 0);
+  const [pensionIncome, setPensionIncome] = useState(init.pensionIncome ?? 0);
+  const [disability, setDisability] = useState(init.disability ?? false);
+  const [tuition, setTuition] = useState(init.tuition ?? 0);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [reportOpen, setReportOpen] = useState(false);
 
   const [results, setResults] = useState<Partial<
     Record<ScenarioKey, ScenarioOutput>
   >>({});
+  const [comparison, setComparison] = useState<{
+    year: number;        // year the main results were calculated for
+    compareYear: number;
+    results: Record<ScenarioKey, ScenarioOutput>;
+  } | null>(null);
+  const [calcInput, setCalcInput] = useState<CalcInput | null>(null);
 
-  // ✅ Build a proper record when all three exist; otherwise null
+  // ✅ Build a proper record when all four exist; otherwise null
   const allReady: (Record<ScenarioKey, ScenarioOutput> | null) = useMemo(() => {
-    if (results.uninc && results.salary && results.dividends) {
+    if (results.uninc && results.salary && results.dividends && results.mixed) {
       return {
         uninc: results.uninc,
         salary: results.salary,
         dividends: results.dividends,
+        mixed: results.mixed,
       };
     }
     return null;
-  }, [results.uninc, results.salary, results.dividends]);
+  }, [results.uninc, results.salary, results.dividends, results.mixed]);
 
-  const handleCalculate = () => {
-    try {
-      const uninc = calculateUnincorporated({ businessIncome }) as ScenarioOutput;
+  const buildInput = (year: number): CalcInput => ({
+    businessIncome,
+    personalCashNeeded,
+    province,
+    taxYear: year,
+    inflationRate: inflationPct / 100,
+    mixObjective,
+    eiStatus,
+    eiSelfEmployedOptIn,
+    worksafeRate: province === "BC" ? worksafeRate : undefined,
+    investmentIncome: investment,
+    openingRdtoh,
+    openingCda,
+    rrspContribution,
+    rrspContributeAllRoom,
+    rrspCarryForwardRoom,
+    ipp: ippEnabled && ownerAge > 0 ? { age: ownerAge, yearsOfService: ippYearsOfService } : undefined,
+    age: ownerAge > 0 ? ownerAge : undefined,
+    oasPension: oasPension > 0 ? oasPension : undefined,
+    amtCarryForward,
+    pensionIncome,
+    disability,
+    tuition,
+  });
 
-      const sal = calculateIncorporatedSalary({
-        businessIncome,
-        personalCashNeeded,
-      }) as ScenarioOutput;
+  const runAll = (year: number): Record<ScenarioKey, ScenarioOutput> => {
+    const input = buildInput(year);
 
-      const divs = calculateIncorporatedDividends({
-        businessIncome,
-        personalCashNeeded,
-      }) as ScenarioOutput;
+    return {
+      uninc: calculateScenario(input, SCENARIO_OF.uninc),
+      salary: calculateScenario(input, SCENARIO_OF.salary),
+      dividends: calculateScenario(input, SCENARIO_OF.dividends),
+      mixed: calculateScenario(input, SCENARIO_OF.mixed),
+    };
+  };
 
-      setResults({ uninc, salary: sal, dividends: divs });
+  const handleCalculate = () => {
+    try {
+      setResults(runAll(taxYear));
+      setCalcInput(buildInput(taxYear));
+      setComparison(
+        compareYear != null && compareYear !== taxYear
+          ? { year: taxYear, compareYear, results: runAll(compareYear) }
+          : null
+      );
     } catch (e) {
       console.error("Calc error:", e);
       alert("There was an error running the calculators. Check console for details.");
     }
   };
 
+  // A share link or saved scenario shows its results straight away
+  useEffect(() => {
+    if (calculate) handleCalculate();
+  }, []);
+
+  // Every input, as share links and saved scenarios carry them
+  const currentInputs = (): SharedInputs => ({
+    input: buildInput(taxYear),
+    compareYear,
+    householdMode,
+    family,
+  });
+
+  // Embedded: host prefills replace those inputs and keep the rest
+  const withInputs = (input: Partial<CalcInput>): SharedInputs => {
+    const current = currentInputs();
+    return { ...current, input: { ...current.input, ...input } };
+  };
+
+  useEffect(() =>
+    setEmbedHandlers({
+      prefill: (input) => onLoad(withInputs(input), false),
+      calculate: (input) => (Object.keys(input).length > 0 ? onLoad(withInputs(input), true) : handleCalculate()),
+    })
+  );
+
+  // ...and the host (or the widget's page) hears about every calculation
+  useEffect(() => {
+    if (!allReady || !calcInput) return;
+    const results = byScenario(allReady);
+    const calculation = { input: calcInput, results, recommended: recommendScenario(results)?.scenario ?? null };
+    postResults(calculation);
+    onResults?.(calculation);
+  }, [allReady, calcInput]);
+
+  const handleCopyLink = async () => {
+    const url = shareLinkFor(window.location.href, currentInputs());
+    window.history.replaceState(null, "", url);
+    try {
+      await navigator.clipboard.writeText(url);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch {
+      // Clipboard blocked (e.g. inside an iframe): the link is in the address bar
+      window.prompt("Copy this link:", url);
+    }
+  };
+
+  // Every output field per scenario, with the inputs and which tax-year rules were used
+  const handleExport = (format: "csv" | "xlsx") => {
+    if (!allReady || !calcInput) return;
+    const results = byScenario(allReady);
+    const recommended = recommendScenario(results);
+    const name = `incorp-calc-${calcInput.province}-${calcInput.taxYear}`;
+
+    if (format === "csv") {
+      downloadFile(`${name}.csv`, toCsv(scenarioRows(calcInput, results, recommended)), "text/csv");
+    } else {
+      downloadFile(`${name}.xlsx`, toXlsx(scenarioWorkbook(calcInput, results, recommended)), XLSX_MIME);
+    }
+  };
+
+  // Client report replaces the Dashboard until closed (it's what gets printed)
+  if (reportOpen && allReady && calcInput) {
+    return <ClientReport input={calcInput} results={allReady} onClose={() => setReportOpen(false)} />;
+  }
+
   return (
-    <div className="min-h-screen bg-slate-50 p-4 sm:p-6 lg:p-8">
+    <div className={`${fitContent ? "" : "min-h-screen "}bg-slate-50 p-4 sm:p-6 lg:p-8`}>
       {/* Header */}
       <div className="mx-auto mb-6 max-w-7xl">
         <div className="flex flex-col items-start justify-between gap-4 sm:flex-row sm:items-center">
           <div>
             <h1 className="text-2xl font-bold tracking-tight text-slate-900">
-              BC Tax Strategy Dashboard
+              {province} Tax Strategy Dashboard
             </h1>
-            <p className="mt-1 text-sm text-slate-600">BC • 2025 rules</p>
+            <p className="mt-1 text-sm text-slate-600">
+              {JURISDICTIONS[province].name} • {yearLabel(taxYear)} rules
+            </p>
           </div>
         </div>
       </div>
 
       <div className="mx-auto grid max-w-7xl grid-cols-1 gap-6 lg:grid-cols-3">
         {/* Inputs */}
-        <div className="lg:col-span-1">
+        <div className="flex flex-col gap-6 lg:col-span-1">
           <div className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm">
             <h2 className="mb-4 text-sm font-semibold text-slate-700">
-              Inputs (BC • 2025)
+              Inputs ({province} • {taxYear})
             </h2>
             <div className="flex flex-col gap-4">
               <div className="grid grid-cols-1 gap-3">
+                <div>
+                  <Label>Province</Label>
+                  <select
+                    className={selectClass}
+                    value={province}
+                    onChange={(e) => setProvince(e.target.value as ProvinceCode)}
+                  >
+                    {PROVINCES.map((code) => (
+                      <option key={code} value={code}>
+                        {JURISDICTIONS[code].name}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-xs leading-5 text-slate-500">
+                    Quebec, the Atlantic provinces and the territories aren't covered yet.
+                  </p>
+                </div>
+                <div>
+                  <Label>Tax Year</Label>
+                  <select
+                    className={selectClass}
+                    value={taxYear}
+                    onChange={(e) => setTaxYear(Number(e.target.value))}
+                  >
+                    {YEAR_OPTIONS.map((y) => (
+                      <option key={y} value={y}>
+                        {yearLabel(y)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                {(isProjectedYear(taxYear) || (compareYear != null && isProjectedYear(compareYear))) && (
+                  <div>
+                    <Label>Assumed Inflation (indexation, % / year)</Label>
+                    <NumberInput
+                      value={inflationPct}
+                      onChange={setInflationPct}
+                      prefix="%"
+                      step={0.1}
+                    />
+                  </div>
+                )}
+                <div>
+                  <Label>Compare with Year</Label>
+                  <select
+                    className={selectClass}
+                    value={compareYear ?? ""}
+                    onChange={(e) =>
+                      setCompareYear(e.target.value === "" ? null : Number(e.target.value))
+                    }
+                  >
+                    <option value="">No comparison</option>
+                    {YEAR_OPTIONS.filter((y) => y !== taxYear).map((y) => (
+                      <option key={y} value={y}>
+                        {yearLabel(y)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
                 <div>
                   <Label>Business Income</Label>
                   <NumberInput value={businessIncome} onChange={setBusinessIncome} />
@@ -265,85 +452,277 @@ export default function Dashboard() {
                     onChange={setPersonalCashNeeded}
                   />
                 </div>
+                <div>
+                  <Label>Owner's Age (0 = not given; OAS from 65)</Label>
+                  <NumberInput value={ownerAge} onChange={setOwnerAge} prefix="#" step={1} />
+                </div>
+                <div>
+                  <Label>Salary/Dividend Mix optimizes for</Label>
+                  <select
+                    className={selectClass}
+                    value={mixObjective}
+                    onChange={(e) => setMixObjective(e.target.value as MixObjective)}
+                  >
+                    <option value="MIN_TAX_AND_CPP">Lowest total tax + CPP</option>
+                    <option value="MAX_TOTAL_CASH">Highest total cash</option>
+                  </select>
+                </div>
+                <div>
+                  <Label>EI on the Owner's Salary</Label>
+                  <select
+                    className={selectClass}
+                    value={eiStatus}
+                    onChange={(e) => setEiStatus(e.target.value as EiStatus)}
+                  >
+                    <option value="OWNER_OVER_40">Owns &gt; 40% (exempt)</option>
+                    <option value="RELATED">Related to the owner (insurable)</option>
+                    <option value="ARM_LENGTH">Arm's length (insurable)</option>
+                  </select>
+                </div>
+                <label className="flex items-center gap-2 text-sm text-slate-600">
+                  <input
+                    type="checkbox"
+                    checked={eiSelfEmployedOptIn}
+                    onChange={(e) => setEiSelfEmployedOptIn(e.target.checked)}
+                  />
+                  Not incorporated: opted into EI special benefits
+                </label>
+                {province === "BC" && (
+                  <div>
+                    <Label>WorkSafeBC Rate (salary, $ per $100 of payroll)</Label>
+                    <NumberInput value={worksafeRate} onChange={setWorksafeRate} step={0.01} />
+                  </div>
+                )}
               </div>
 
+              <details className="rounded-2xl border border-slate-200 p-3">
+                <summary className="cursor-pointer text-sm font-medium text-slate-600">
+                  RRSP Contribution
+                </summary>
+                <div className="mt-3 grid grid-cols-1 gap-3">
+                  <label className="flex items-center gap-2 text-sm text-slate-600">
+                    <input
+                      type="checkbox"
+                      checked={rrspContributeAllRoom}
+                      onChange={(e) => setRrspContributeAllRoom(e.target.checked)}
+                    />
+                    Contribute all available room
+                  </label>
+                  {!rrspContributeAllRoom && (
+                    <div>
+                      <Label>Contribution</Label>
+                      <NumberInput value={rrspContribution} onChange={setRrspContribution} />
+                    </div>
+                  )}
+                  <div>
+                    <Label>Unused Room Carried Forward</Label>
+                    <NumberInput value={rrspCarryForwardRoom} onChange={setRrspCarryForwardRoom} />
+                  </div>
+                </div>
+              </details>
+
+              <details className="rounded-2xl border border-slate-200 p-3">
+                <summary className="cursor-pointer text-sm font-medium text-slate-600">
+                  Individual Pension Plan (salary)
+                </summary>
+                <div className="mt-3 grid grid-cols-1 gap-3">
+                  <label className="flex items-center gap-2 text-sm text-slate-600">
+                    <input
+                      type="checkbox"
+                      checked={ippEnabled}
+                      onChange={(e) => {
+                        setIppEnabled(e.target.checked);
+                        // The IPP is funded at the owner's age; start from a typical one
+                        if (e.target.checked && ownerAge <= 0) setOwnerAge(55);
+                      }}
+                    />
+                    Fund an IPP in the salary scenario
+                  </label>
+                  {ippEnabled && (
+                    <>
+                      <p className="text-xs text-slate-500">
+                        {ownerAge > 0
+                          ? `Funded for the owner's age above (${ownerAge}).`
+                          : "Enter the owner's age above to fund the IPP."}
+                      </p>
+                      <div>
+                        <Label>Past Years of Service (on salary)</Label>
+                        <NumberInput
+                          value={ippYearsOfService}
+                          onChange={setIppYearsOfService}
+                          prefix="#"
+                          step={1}
+                        />
+                      </div>
+                    </>
+                  )}
+                </div>
+              </details>
+
+              <details className="rounded-2xl border border-slate-200 p-3">
+                <summary className="cursor-pointer text-sm font-medium text-slate-600">
+                  Owner's Return (credits / OAS / AMT)
+                </summary>
+                <div className="mt-3 grid grid-cols-1 gap-3">
+                  <div>
+                    <Label>OAS Received (0 = full OAS from 65)</Label>
+                    <NumberInput value={oasPension} onChange={setOasPension} />
+                  </div>
+                  <div>
+                    <Label>AMT Credit Carried Forward</Label>
+                    <NumberInput value={amtCarryForward} onChange={setAmtCarryForward} />
+                  </div>
+                  <div>
+                    <Label>Eligible Pension Income</Label>
+                    <NumberInput value={pensionIncome} onChange={setPensionIncome} />
+                  </div>
+                  <div>
+                    <Label>Tuition Paid</Label>
+                    <NumberInput value={tuition} onChange={setTuition} />
+                  </div>
+                  <label className="flex items-center gap-2 text-sm text-slate-600">
+                    <input
+                      type="checkbox"
+                      checked={disability}
+                      onChange={(e) => setDisability(e.target.checked)}
+                    />
+                    Claims the disability amount
+                  </label>
+                </div>
+              </details>
+
+              <label className="flex items-center gap-2 text-sm text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={householdMode}
+                  onChange={(e) => setHouseholdMode(e.target.checked)}
+                />
+                Household mode (spouse / adult children)
+              </label>
+
+              <details className="rounded-2xl border border-slate-200 p-3">
+                <summary className="cursor-pointer text-sm font-medium text-slate-600">
+                  Corporate Investment Income
+                </summary>
+                <div className="mt-3 grid grid-cols-1 gap-3">
+                  {([
+                    ["interest", "Interest"],
+                    ["foreignIncome", "Foreign Income"],
+                    ["capitalGains", "Realized Capital Gains"],
+                    ["canadianDividends", "Canadian Portfolio Dividends"],
+                  ] as const).map(([key, label]) => (
+                    <div key={key}>
+                      <Label>{label}</Label>
+                      <NumberInput
+                        value={investment[key]}
+                        onChange={(n) => setInvestment((v) => ({ ...v, [key]: n }))}
+                      />
+                    </div>
+                  ))}
+                  <div>
+                    <Label>Opening RDTOH — eligible</Label>
+                    <NumberInput
+                      value={openingRdtoh.eligible}
+                      onChange={(n) => setOpeningRdtoh((v) => ({ ...v, eligible: n }))}
+                    />
+                  </div>
+                  <div>
+                    <Label>Opening RDTOH — non-eligible</Label>
+                    <NumberInput
+                      value={openingRdtoh.nonEligible}
+                      onChange={(n) => setOpeningRdtoh((v) => ({ ...v, nonEligible: n }))}
+                    />
+                  </div>
+                  <div>
+                    <Label>Opening Capital Dividend Account</Label>
+                    <NumberInput value={openingCda} onChange={setOpeningCda} />
+                  </div>
+                </div>
+              </details>
+
               <button
                 onClick={handleCalculate}
                 className="mt-2 inline-flex items-center justify-center rounded-2xl bg-indigo-600 px-4 py-2.5 text-sm font-semibold text-white shadow-sm transition hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500/30"
               >
                 Calculate
               </button>
+              {!widget && (
+                <button
+                  onClick={handleCopyLink}
+                  className="inline-flex items-center justify-center rounded-2xl border border-slate-200 bg-white px-4 py-2 text-sm font-medium text-slate-700 shadow-sm transition hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-indigo-500/30"
+                >
+                  {linkCopied ? "Link copied" : "Copy link"}
+                </button>
+              )}
+              <button
+                onClick={() => setReportOpen(true)}
+                disabled={!allReady}
+                className="inline-flex items-center justify-center rounded-2xl border border-slate-200 bg-white px-4 py-2 text-sm font-medium text-slate-700 shadow-sm transition hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-indigo-500/30 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                Client report (PDF)
+              </button>
 
               <p className="text-xs leading-5 text-slate-500">
                 Effective rate includes CPP where applicable. Unincorporated uses your
-                Business Income as total income.
+                Business Income as total income. RRSP contributions are paid out of
+                personal cash (the salary or dividends cover them, less the refund) and
+                count toward total cash.
               </p>
             </div>
           </div>
+
+          {!widget && <SavedScenariosPanel current={currentInputs} onLoad={onLoad} />}
         </div>
 
         {/* Results */}
         <div className="lg:col-span-2">
           <div className="grid grid-cols-1 gap-6">
             {/* One card per row */}
-            <ScenarioCard title="Not Incorporated" color="#fb7185" data={results.uninc} />
-            <ScenarioCard title="Incorporated – Salary" color="#60a5fa" data={results.salary} />
-            <ScenarioCard title="Incorporated – Dividends" color="#34d399" data={results.dividends} />
+            {SCENARIO_CARDS.map((c) => (
+              <ScenarioCard key={c.key} title={c.title} color={c.color} data={results[c.key]} />
+            ))}
 
             {allReady && <ComparisonBars results={allReady} />}
 
+            {allReady && calcInput && <IncomeSweepPanel input={calcInput} />}
+
+            {allReady && calcInput && <BreakEvenPanel input={calcInput} />}
+
+            {allReady && calcInput && <MarginalRatesPanel input={calcInput} results={allReady} />}
+
+            {allReady && comparison && (
+              <YearOverYear
+                year={comparison.year}
+                compareYear={comparison.compareYear}
+                current={allReady}
+                previous={comparison.results}
+              />
+            )}
+
+            {allReady && calcInput && householdMode && (
+              <HouseholdPanel input={calcInput} family={family} setFamily={setFamily} />
+            )}
+
+            {allReady && calcInput && <ProjectionPanel input={calcInput} />}
+
             {/* Detailed Breakdown */}
             {allReady && (
-              <div className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm">
-                <h3 className="mb-4 text-sm font-semibold text-slate-700">
-                  Detailed Breakdown
-                </h3>
-                <div className="overflow-x-auto">
-                  <table className="min-w-full text-left text-sm">
-                    <thead>
-                      <tr className="border-b border-slate-200 text-slate-500">
-                        <th className="py-2 pr-4 font-medium">Line Item</th>
-                        <th className="py-2 pr-4 font-medium">Not Inc.</th>
-                        <th className="py-2 pr-4 font-medium">Inc. Salary</th>
-                        <th className="py-2 pr-4 font-medium">Inc. Dividends</th>
-                      </tr>
-                    </thead>
-                    <tbody className="divide-y divide-slate-100">
-                      {[
-                        ["Dividends — non-eligible", 0, 0, allReady.dividends.nonEligibleDividends ?? 0],
-                        ["Dividends — eligible",     0, 0, allReady.dividends.eligibleDividends ?? 0],
-
-                        ["Personal Taxes",  allReady.uninc.personalTaxes,  allReady.salary.personalTaxes,  allReady.dividends.personalTaxes],
-                        ["Corporate Taxes", allReady.uninc.corporateTaxes, allReady.salary.corporateTaxes, allReady.dividends.corporateTaxes],
-                        ["CPP (Total)",     allReady.uninc.totalCPP,       allReady.salary.totalCPP,       allReady.dividends.totalCPP],
-                        ["Total Taxes",     allReady.uninc.totalTaxes,     allReady.salary.totalTaxes,     allReady.dividends.totalTaxes],
-                        ["Effective Rate",  allReady.uninc.totalTaxRate,   allReady.salary.totalTaxRate,   allReady.dividends.totalTaxRate, true],
-                        ["Personal Cash",   allReady.uninc.personalCash,   allReady.salary.personalCash,   allReady.dividends.personalCash],
-                        ["Corporate Cash",  allReady.uninc.corporateCash,  allReady.salary.corporateCash,  allReady.dividends.corporateCash],
-                      ].map((row, idx) => {
-                        const isPct = row[4] === true;
-                        const v1 = row[1] as number;
-                        const v2 = row[2] as number;
-                        const v3 = row[3] as number;
-                        return (
-                          <tr key={idx}>
-                            <td className="py-2 pr-4 text-slate-600">{row[0] as string}</td>
-                            <td className="py-2 pr-4 font-medium text-slate-800">
-                              {isPct ? pct(v1) : money(v1)}
-                            </td>
-                            <td className="py-2 pr-4 font-medium text-slate-800">
-                              {isPct ? pct(v2) : money(v2)}
-                            </td>
-                            <td className="py-2 pr-2 font-medium text-slate-800">
-                              {isPct ? pct(v3) : money(v3)}
-                            </td>
-                          </tr>
-                        );
-                      })}
-                    </tbody>
-                  </table>
-                </div>
-              </div>
+              <BreakdownTable
+                results={allReady}
+                actions={
+                  <div className="flex gap-2">
+                    {(["csv", "xlsx"] as const).map((format) => (
+                      <button
+                        key={format}
+                        onClick={() => handleExport(format)}
+                        className="rounded-xl border border-slate-200 bg-white px-3 py-1.5 text-xs font-medium text-slate-700 shadow-sm hover:bg-slate-50"
+                      >
+                        Export {format.toUpperCase()}
+                      </button>
+                    ))}
+                  </div>
+                }
+              />
             )}
           </div>
         </div>
@@ -351,7 +730,7 @@ export default function Dashboard() {
 
       {/* Footer */}
       <div className="mx-auto mt-8 max-w-7xl text-center text-xs text-slate-500">
-        BC 2025 assumptions. Powered by your calculator engine.
+        {JURISDICTIONS[province].name} {yearLabel(taxYear)} assumptions. Powered by your calculator engine.
       </div>
     </div>
   );
@@ -0,0 +1,144 @@
+// src/pages/dashboard/BreakEvenPanel.tsx
+import React, { useEffect, useRef, useState } from "react";
+import {
+  INCORPORATED_SCENARIOS,
+  findBreakEven,
+  type BreakEvenBasis,
+  type BreakEvenPoint,
+  type CalcInput,
+} from "@/engine";
+import { SCENARIO_CARDS, SCENARIO_OF } from "./results";
+import { Label, NumberInput, money, selectClass } from "./ui";
+
+/* ------------ Break-even: the business income where incorporating starts to pay off ------------ */
+const BASES: Array<{ value: BreakEvenBasis; label: string }> = [
+  { value: "TOTAL_CASH", label: "Total cash (personal + corporate)" },
+  { value: "TAX_AND_CPP", label: "Tax + CPP/EI paid" },
+];
+
+const RANGE = { minIncome: 10_000, maxIncome: 1_000_000 };
+
+const CARD_OF = Object.fromEntries(SCENARIO_CARDS.map((c) => [SCENARIO_OF[c.key], c]));
+
+export default function BreakEvenPanel({ input }: { input: CalcInput }) {
+  const [basis, setBasis] = useState<BreakEvenBasis>("TOTAL_CASH");
+  const [annualCosts, setAnnualCosts] = useState(0);
+  const [points, setPoints] = useState<BreakEvenPoint[] | null>(null);
+  const [running, setRunning] = useState(false);
+  const timer = useRef(0);
+
+  // New inputs make the old answer stale (and stop a search that's still running)
+  useEffect(() => {
+    window.clearTimeout(timer.current);
+    setRunning(false);
+    setPoints(null);
+  }, [input, basis, annualCosts]);
+  useEffect(() => () => window.clearTimeout(timer.current), []);
+
+  // One scenario per tick (the mix optimizer is slow), so "Calculating…" gets painted
+  const handleFind = () => {
+    const done: BreakEvenPoint[] = [];
+    const next = (i: number) => {
+      if (i >= INCORPORATED_SCENARIOS.length) {
+        setRunning(false);
+        return;
+      }
+      done.push(findBreakEven(input, INCORPORATED_SCENARIOS[i], { ...RANGE, basis, annualCosts }));
+      setPoints([...done]);
+      timer.current = window.setTimeout(() => next(i + 1), 0);
+    };
+
+    setRunning(true);
+    setPoints([]);
+    timer.current = window.setTimeout(() => next(0), 0);
+  };
+
+  const describe = (p: BreakEvenPoint) => {
+    if (p.aheadAtMin) return <>Ahead from {money(RANGE.minIncome)}</>;
+    if (p.businessIncome == null) {
+      return <>Not within {money(RANGE.minIncome)} – {money(RANGE.maxIncome)}</>;
+    }
+    return money(p.businessIncome);
+  };
+
+  const position = (p: BreakEvenPoint) => {
+    if (p.businessIncome == null) return <span className="text-slate-500">Below</span>;
+    return input.businessIncome >= p.businessIncome ? (
+      <span className="text-emerald-600">Above (+{money(input.businessIncome - p.businessIncome)})</span>
+    ) : (
+      <span className="text-amber-600">Below (−{money(p.businessIncome - input.businessIncome)})</span>
+    );
+  };
+
+  return (
+    <div className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm">
+      <h3 className="mb-4 text-sm font-semibold text-slate-700">Break-Even Income</h3>
+
+      <div className="mb-4 grid grid-cols-1 items-end gap-3 sm:grid-cols-3">
+        <div>
+          <Label>Compare on</Label>
+          <select
+            className={selectClass}
+            value={basis}
+            onChange={(e) => setBasis(e.target.value as BreakEvenBasis)}
+          >
+            {BASES.map((b) => (
+              <option key={b.value} value={b.value}>
+                {b.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <Label>Incorporation Costs (/ year)</Label>
+          <NumberInput value={annualCosts} onChange={setAnnualCosts} step={500} min={0} />
+        </div>
+        <button
+          onClick={handleFind}
+          disabled={running}
+          className="rounded-2xl bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-700 disabled:opacity-60"
+        >
+          {running ? "Calculating…" : "Find break-even"}
+        </button>
+      </div>
+
+      {points && points.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-left text-sm">
+            <thead>
+              <tr className="border-b border-slate-200 text-slate-500">
+                <th className="py-2 pr-4 font-medium">Scenario</th>
+                <th className="py-2 pr-4 font-medium">Break-Even Income</th>
+                <th className="py-2 pr-4 font-medium">Your Income ({money(input.businessIncome)})</th>
+                <th className="py-2 pr-2 font-medium">Advantage at {money(RANGE.maxIncome)}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {points.map((p) => (
+                <tr key={p.scenario}>
+                  <td className="py-2 pr-4 text-slate-600">
+                    <span
+                      className="mr-2 inline-block h-2.5 w-2.5 rounded-full"
+                      style={{ backgroundColor: CARD_OF[p.scenario].color }}
+                    />
+                    {CARD_OF[p.scenario].title}
+                  </td>
+                  <td className="py-2 pr-4 font-medium text-slate-800">{describe(p)}</td>
+                  <td className="py-2 pr-4 font-medium">{position(p)}</td>
+                  <td className="py-2 pr-2 font-medium text-slate-800">{money(p.advantageAtMax)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <p className="mt-3 text-xs leading-5 text-slate-500">
+        The lowest business income at which each structure beats staying unincorporated, with cash
+        needed fixed at {money(input.personalCashNeeded)}. Incorporation costs (accounting, legal,
+        annual filings) are deducted by the corporation. A structure never counts as ahead while the
+        corporation can't fund the cash needed.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+// src/pages/dashboard/ClientReport.tsx
+import React, { useState } from "react";
+import {
+  JURISDICTIONS,
+  isProjectedYear,
+  recommendScenario,
+  type CalcInput,
+  type ScenarioOutput,
+} from "@/engine";
+import {
+  BreakdownTable,
+  ComparisonBars,
+  SCENARIO_CARDS,
+  SCENARIO_OF,
+  ScenarioCard,
+  byScenario,
+  type ScenarioKey,
+} from "./results";
+import { money, pct } from "./ui";
+
+/* ------------ Client report: print-optimized, saved as PDF from the browser's print dialog ------------ */
+const EI_STATUS_LABEL = {
+  OWNER_OVER_40: "owns more than 40% (exempt)",
+  RELATED: "related to the owner (insurable)",
+  ARM_LENGTH: "arm's length (insurable)",
+} as const;
+
+const TITLE_OF = Object.fromEntries(SCENARIO_CARDS.map((c) => [SCENARIO_OF[c.key], c.title]));
+
+function Fact({ label, value }: { label: string; value: React.ReactNode }) {
+  return (
+    <div>
+      <div className="text-[10px] font-semibold tracking-wide text-slate-500 uppercase">{label}</div>
+      <div className="mt-0.5 text-sm font-medium text-slate-900 tabular-nums">{value}</div>
+    </div>
+  );
+}
+
+/** Plain-language assumptions behind these particular results */
+function assumptions(input: CalcInput) {
+  const year = input.taxYear;
+  const notes = [
+    isProjectedYear(year)
+      ? `${year} rules are projected: the latest published tables indexed at ${pct(input.inflationRate ?? 0.02)} a year.`
+      : `Federal and ${JURISDICTIONS[input.province].name} rules published for ${year}.`,
+    "Corporate tax is for a Canadian-controlled private corporation claiming the small business deduction.",
+    "Effective rates include CPP and EI on both the employer and employee side, and employer payroll taxes.",
+    `EI on the owner's salary: ${EI_STATUS_LABEL[input.eiStatus ?? "OWNER_OVER_40"]}.`,
+    "Not incorporated treats all business income as self-employment income.",
+    "Cash left in the corporation is shown before any tax on paying it out later.",
+  ];
+  if (input.rrspContributeAllRoom || (input.rrspContribution ?? 0) > 0) {
+    notes.push("RRSP contributions are paid out of personal cash; the refund lowers the pay needed.");
+  }
+  if (input.ipp) {
+    notes.push(
+      `Individual Pension Plan funded in the salary scenario (age ${input.ipp.age}, ${input.ipp.yearsOfService} years of past service).`
+    );
+  }
+  if ((input.worksafeRate ?? 0) > 0) {
+    notes.push(`WorkSafeBC at $${input.worksafeRate} per $100 of payroll in the salary scenario.`);
+  }
+  notes.push("This report is an estimate for planning discussions, not tax advice or a filed return.");
+  return notes;
+}
+
+export default function ClientReport({
+  input,
+  results,
+  onClose,
+}: {
+  input: CalcInput;
+  results: Record<ScenarioKey, ScenarioOutput>;
+  onClose: () => void;
+}) {
+  const [preparedFor, setPreparedFor] = useState("");
+  const [preparedBy, setPreparedBy] = useState("");
+
+  const best = recommendScenario(byScenario(results));
+  const today = new Date().toLocaleDateString("en-CA", { dateStyle: "long" });
+  const yearLabel = `${input.taxYear}${isProjectedYear(input.taxYear) ? " (projected)" : ""}`;
+
+  return (
+    <div className="min-h-screen bg-slate-50 p-4 sm:p-6 lg:p-8 print:min-h-0 print:bg-white print:p-0">
+      {/* Toolbar (screen only) */}
+      <div className="mx-auto mb-6 flex max-w-4xl flex-wrap items-end gap-3 print:hidden">
+        <label className="flex flex-col text-xs font-medium text-slate-600">
+          Prepared for
+          <input
+            className="mt-1 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm shadow-sm"
+            value={preparedFor}
+            onChange={(e) => setPreparedFor(e.target.value)}
+          />
+        </label>
+        <label className="flex flex-col text-xs font-medium text-slate-600">
+          Prepared by
+          <input
+            className="mt-1 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm shadow-sm"
+            value={preparedBy}
+            onChange={(e) => setPreparedBy(e.target.value)}
+          />
+        </label>
+        <div className="ml-auto flex gap-2">
+          <button
+            onClick={onClose}
+            className="rounded-2xl border border-slate-200 bg-white px-4 py-2 text-sm font-medium text-slate-700 shadow-sm hover:bg-slate-50"
+          >
+            Back to calculator
+          </button>
+          <button
+            onClick={() => window.print()}
+            className="rounded-2xl bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-700"
+          >
+            Print / Save as PDF
+          </button>
+        </div>
+      </div>
+
+      <div className="mx-auto flex max-w-4xl flex-col gap-6 print:max-w-none print:gap-4">
+        {/* Header */}
+        <div className="flex items-start justify-between border-b-2 border-indigo-600 pb-4">
+          <div>
+            <div className="text-xs font-semibold tracking-widest text-indigo-600 uppercase">
+              Incorporation Tax Calculator
+            </div>
+            <h1 className="mt-1 text-2xl font-bold tracking-tight text-slate-900">
+              Incorporation Comparison Report
+            </h1>
+            {preparedFor && <p className="mt-1 text-sm text-slate-600">Prepared for {preparedFor}</p>}
+          </div>
+          <div className="text-right text-xs leading-5 text-slate-600">
+            <div>{today}</div>
+            <div>
+              {JURISDICTIONS[input.province].name} • {yearLabel} tax year
+            </div>
+            {preparedBy && <div>Prepared by {preparedBy}</div>}
+          </div>
+        </div>
+
+        {/* Inputs + headline */}
+        <div className="grid grid-cols-2 gap-4 rounded-3xl border border-slate-200 bg-white p-5 shadow-sm sm:grid-cols-4 print:break-inside-avoid print:shadow-none">
+          <Fact label="Business Income" value={money(input.businessIncome)} />
+          <Fact label="Cash Needed (after tax)" value={money(input.personalCashNeeded)} />
+          <Fact label="Province" value={JURISDICTIONS[input.province].name} />
+          <Fact label="Tax Year" value={yearLabel} />
+          {best && (
+            <div className="col-span-2 text-sm text-slate-700 sm:col-span-4">
+              Most total cash: <span className="font-semibold">{TITLE_OF[best.scenario]}</span>
+              {best.advantage > 0 && <> — {money(best.advantage)} more than the next best structure</>}
+            </div>
+          )}
+        </div>
+
+        {/* Scenario cards */}
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 print:grid-cols-2">
+          {SCENARIO_CARDS.map((c) => (
+            <div key={c.key} className="print:break-inside-avoid">
+              <ScenarioCard title={c.title} color={c.color} data={results[c.key]} />
+            </div>
+          ))}
+        </div>
+
+        <div className="print:break-inside-avoid">
+          <ComparisonBars results={results} />
+        </div>
+
+        <div className="print:break-before-page">
+          <BreakdownTable results={results} />
+        </div>
+
+        {/* Assumptions */}
+        <div className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm print:break-inside-avoid print:shadow-none">
+          <h3 className="mb-2 text-sm font-semibold text-slate-700">Assumptions</h3>
+          <ul className="list-disc space-y-1 pl-5 text-xs leading-5 text-slate-600">
+            {assumptions(input).map((note) => (
+              <li key={note}>{note}</li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+// src/pages/dashboard/HouseholdPanel.tsx
+import React, { useMemo } from "react";
+import {
+  SCENARIOS,
+  calculateHousehold,
+  type CalcInput,
+  type EiStatus,
+  type FamilyMember,
+  type FamilyRelation,
+  type TosiExemption,
+} from "@/engine";
+import { money, selectClass } from "./ui";
+
+/* ------------ Household mode: family members + household totals ------------ */
+const SCENARIO_LABEL = {
+  UNINCORPORATED: "Not Incorporated",
+  INC_SALARY: "Inc. Salary",
+  INC_DIVIDENDS: "Inc. Dividends",
+  INC_MIXED: "Inc. Mix",
+} as const;
+
+const newMember = (relation: FamilyRelation, n: number): FamilyMember => ({
+  name: relation === "SPOUSE" ? "Spouse" : `Child ${n}`,
+  relation,
+  age: relation === "SPOUSE" ? 45 : 20,
+  salary: 0,
+  dividends: 0,
+  otherIncome: 0,
+  exemption: "NONE",
+});
+
+/** Household mode starts with a spouse on the books */
+export const DEFAULT_FAMILY: FamilyMember[] = [newMember("SPOUSE", 0)];
+
+const cellInput =
+  "w-full rounded-xl border border-slate-200 bg-white px-2 py-1.5 text-sm shadow-sm outline-none focus:ring-2 focus:ring-indigo-500/30";
+
+export default function HouseholdPanel({
+  input,
+  family,
+  setFamily,
+}: {
+  input: CalcInput;
+  family: FamilyMember[]; // kept by the Dashboard so share links carry it
+  setFamily: React.Dispatch<React.SetStateAction<FamilyMember[]>>;
+}) {
+  const results = useMemo(
+    () => SCENARIOS.map((s) => calculateHousehold({ ...input, family }, s)),
+    [input, family]
+  );
+  const warnings = Array.from(new Set(results.flatMap((r) => r.warnings)));
+
+  const update = (i: number, patch: Partial<FamilyMember>) =>
+    setFamily((f) => f.map((m, j) => (j === i ? { ...m, ...patch } : m)));
+  const add = (relation: FamilyRelation) =>
+    setFamily((f) => [...f, newMember(relation, f.filter((m) => m.relation === "ADULT_CHILD").length + 1)]);
+  const remove = (i: number) => setFamily((f) => f.filter((_, j) => j !== i));
+
+  return (
+    <div className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm">
+      <h3 className="mb-4 text-sm font-semibold text-slate-700">Household (Income Splitting)</h3>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-left text-sm">
+          <thead>
+            <tr className="border-b border-slate-200 text-slate-500">
+              <th className="py-2 pr-2 font-medium">Name</th>
+              <th className="py-2 pr-2 font-medium">Age</th>
+              <th className="py-2 pr-2 font-medium">Salary</th>
+              <th className="py-2 pr-2 font-medium">Dividends</th>
+              <th className="py-2 pr-2 font-medium">Other Income</th>
+              <th className="py-2 pr-2 font-medium">TOSI Exclusion</th>
+              <th className="py-2 pr-2 font-medium">EI</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {family.map((m, i) => (
+              <tr key={i}>
+                <td className="py-2 pr-2">
+                  <input className={cellInput} value={m.name} onChange={(e) => update(i, { name: e.target.value })} />
+                </td>
+                {(["age", "salary", "dividends", "otherIncome"] as const).map((k) => (
+                  <td key={k} className="py-2 pr-2">
+                    <input
+                      type="number"
+                      min={0}
+                      className={cellInput}
+                      value={m[k] ?? 0}
+                      onChange={(e) => update(i, { [k]: Number(e.target.value) })}
+                    />
+                  </td>
+                ))}
+                <td className="py-2 pr-2">
+                  <select
+                    className={selectClass}
+                    value={m.exemption ?? "NONE"}
+                    onChange={(e) => update(i, { exemption: e.target.value as TosiExemption })}
+                  >
+                    <option value="NONE">None (TOSI applies)</option>
+                    <option value="EXCLUDED_BUSINESS">Excluded business (20 h/week)</option>
+                    <option value="EXCLUDED_SHARES">Excluded shares (25+, 10%)</option>
+                  </select>
+                </td>
+                <td className="py-2 pr-2">
+                  <select
+                    className={selectClass}
+                    value={m.eiStatus ?? "RELATED"}
+                    onChange={(e) => update(i, { eiStatus: e.target.value as EiStatus })}
+                  >
+                    <option value="RELATED">Related (insurable)</option>
+                    <option value="ARM_LENGTH">Arm's length</option>
+                    <option value="OWNER_OVER_40">Owns &gt; 40% (exempt)</option>
+                  </select>
+                </td>
+                <td className="py-2 text-right">
+                  <button className="text-xs text-slate-500 hover:text-rose-600" onClick={() => remove(i)}>
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-2 flex gap-3 text-xs">
+        {!family.some((m) => m.relation === "SPOUSE") && (
+          <button className="font-medium text-indigo-600 hover:text-indigo-700" onClick={() => add("SPOUSE")}>
+            + Add spouse
+          </button>
+        )}
+        <button className="font-medium text-indigo-600 hover:text-indigo-700" onClick={() => add("ADULT_CHILD")}>
+          + Add adult child
+        </button>
+      </div>
+
+      <div className="mt-4 overflow-x-auto">
+        <table className="min-w-full text-left text-sm">
+          <thead>
+            <tr className="border-b border-slate-200 text-slate-500">
+              <th className="py-2 pr-4 font-medium">Scenario</th>
+              <th className="py-2 pr-4 font-medium">Household Net Cash</th>
+              <th className="py-2 pr-4 font-medium">Corporate Cash</th>
+              <th className="py-2 pr-4 font-medium">Total Tax</th>
+              <th className="py-2 pr-4 font-medium">CPP</th>
+              <th className="py-2 pr-4 font-medium">EI</th>
+              <th className="py-2 pr-2 font-medium">TOSI</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {results.map((r) => (
+              <tr key={r.scenario}>
+                <td className="py-2 pr-4 text-slate-600">{SCENARIO_LABEL[r.scenario]}</td>
+                <td className="py-2 pr-4 font-medium text-slate-800">{money(r.householdPersonalCash)}</td>
+                <td className="py-2 pr-4 font-medium text-slate-800">{money(r.corporateCash)}</td>
+                <td className="py-2 pr-4 font-medium text-slate-800">{money(r.householdTotalTaxes)}</td>
+                <td className="py-2 pr-4 font-medium text-slate-800">{money(r.householdTotalCPP)}</td>
+                <td className="py-2 pr-4 font-medium text-slate-800">{money(r.householdTotalEI)}</td>
+                <td className="py-2 pr-2 font-medium text-slate-800">
+                  {money(r.members.reduce((s, m) => s + m.tosiTax, 0))}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {warnings.length > 0 && (
+        <ul className="mt-3 list-disc pl-5 text-xs text-amber-700">
+          {warnings.map((w) => (
+            <li key={w}>{w}</li>
+          ))}
+        </ul>
+      )}
+
+      <p className="mt-3 text-xs leading-5 text-slate-500">
+        The owner still draws the Cash Needed above; family salaries are business expenses and
+        family dividends (non-eligible) come out of corporate cash. Dividends to family are taxed
+        at the top rate (TOSI) unless an exclusion applies.
+      </p>
+    </div>
+  );
+}
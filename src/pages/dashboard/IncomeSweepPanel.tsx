@@ -0,0 +1,181 @@
+// src/pages/dashboard/IncomeSweepPanel.tsx
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  Chart as ChartJS,
+  Legend,
+  LineElement,
+  LinearScale,
+  PointElement,
+  Tooltip,
+  type ChartData,
+  type ChartOptions,
+  type Plugin,
+} from "chart.js";
+import { Line } from "react-chartjs-2";
+import {
+  DEFAULT_SWEEP,
+  SWEEP_METRICS,
+  sweepIncomes,
+  sweepPoint,
+  type CalcInput,
+  type SweepMetric,
+  type SweepPoint,
+} from "@/engine";
+import { SCENARIO_CARDS, SCENARIO_OF } from "./results";
+import { Label, NumberInput, money, pct, selectClass } from "./ui";
+
+ChartJS.register(LinearScale, PointElement, LineElement, Tooltip, Legend);
+
+/* ------------ Income sweep: every scenario from $30k to $1M of business income ------------ */
+const compactMoney = new Intl.NumberFormat("en-CA", {
+  style: "currency",
+  currency: "CAD",
+  notation: "compact",
+  maximumFractionDigits: 1,
+});
+
+/** Vertical guides: dashed at the user's income, solid under the hover cursor */
+function guidesPlugin(income: number): Plugin<"line"> {
+  return {
+    id: "sweepGuides",
+    afterDatasetsDraw(chart) {
+      const { ctx, chartArea, scales } = chart;
+      const vertical = (x: number, color: string, dash: number[]) => {
+        ctx.save();
+        ctx.strokeStyle = color;
+        ctx.setLineDash(dash);
+        ctx.beginPath();
+        ctx.moveTo(x, chartArea.top);
+        ctx.lineTo(x, chartArea.bottom);
+        ctx.stroke();
+        ctx.restore();
+      };
+
+      vertical(scales.x.getPixelForValue(income), "#6366f1", [4, 4]);
+      const active = chart.tooltip?.getActiveElements() ?? [];
+      if (active.length > 0) vertical(active[0].element.x, "#94a3b8", []);
+    },
+  };
+}
+
+export default function IncomeSweepPanel({ input }: { input: CalcInput }) {
+  const [metric, setMetric] = useState<SweepMetric>("totalTaxRate");
+  const [from, setFrom] = useState<number>(DEFAULT_SWEEP.from);
+  const [to, setTo] = useState<number>(DEFAULT_SWEEP.to);
+  const [points, setPoints] = useState<SweepPoint[]>([]);
+
+  const incomes = useMemo(
+    () => sweepIncomes(from, to, DEFAULT_SWEEP.steps, [input.businessIncome]),
+    [from, to, input.businessIncome]
+  );
+
+  // One income per tick (the mix optimizer is slow), so the page stays responsive
+  useEffect(() => {
+    const done: SweepPoint[] = [];
+    let timer = 0;
+    const next = (i: number) => {
+      if (i >= incomes.length) return;
+      done.push(sweepPoint(input, incomes[i]));
+      if (done.length % 5 === 0 || i === incomes.length - 1) setPoints([...done]);
+      timer = window.setTimeout(() => next(i + 1), 0);
+    };
+
+    setPoints([]);
+    timer = window.setTimeout(() => next(0), 0);
+    return () => window.clearTimeout(timer);
+  }, [input, incomes]);
+
+  const isRate = metric === "totalTaxRate";
+  const format = (n: number) => (isRate ? pct(n) : money(n));
+
+  const data: ChartData<"line", Array<{ x: number; y: number }>> = {
+    datasets: SCENARIO_CARDS.map((c) => ({
+      label: c.title,
+      borderColor: c.color,
+      backgroundColor: c.color,
+      borderWidth: 2,
+      pointRadius: points.map((p) => (p.businessIncome === Math.round(input.businessIncome) ? 5 : 0)),
+      pointHoverRadius: 4,
+      data: points.map((p) => ({
+        x: p.businessIncome,
+        y: SWEEP_METRICS[metric].value(p.results[SCENARIO_OF[c.key]]),
+      })),
+    })),
+  };
+
+  const options: ChartOptions<"line"> = {
+    animation: false,
+    maintainAspectRatio: false,
+    interaction: { mode: "index", intersect: false },
+    scales: {
+      x: {
+        type: "linear",
+        min: Math.min(from, to),
+        max: Math.max(from, to, input.businessIncome),
+        title: { display: true, text: "Business income" },
+        ticks: { callback: (v) => compactMoney.format(Number(v)) },
+      },
+      y: {
+        title: { display: true, text: SWEEP_METRICS[metric].label },
+        ticks: { callback: (v) => (isRate ? pct(Number(v)) : compactMoney.format(Number(v))) },
+      },
+    },
+    plugins: {
+      legend: { position: "bottom", labels: { boxWidth: 12 } },
+      tooltip: {
+        callbacks: {
+          title: (items) => `Business income ${money(items[0]?.parsed.x ?? 0)}`,
+          label: (item) => `${item.dataset.label}: ${format(item.parsed.y ?? 0)}`,
+        },
+      },
+    },
+  };
+
+  const plugins = useMemo(() => [guidesPlugin(input.businessIncome)], [input.businessIncome]);
+
+  return (
+    <div className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm">
+      <h3 className="mb-4 text-sm font-semibold text-slate-700">Income Sweep</h3>
+
+      <div className="mb-4 grid grid-cols-1 gap-3 sm:grid-cols-3">
+        <div>
+          <Label>Show</Label>
+          <select
+            className={selectClass}
+            value={metric}
+            onChange={(e) => setMetric(e.target.value as SweepMetric)}
+          >
+            {(Object.keys(SWEEP_METRICS) as SweepMetric[]).map((m) => (
+              <option key={m} value={m}>
+                {SWEEP_METRICS[m].label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <Label>From</Label>
+          <NumberInput value={from} onChange={setFrom} step={10_000} />
+        </div>
+        <div>
+          <Label>To</Label>
+          <NumberInput value={to} onChange={setTo} step={10_000} />
+        </div>
+      </div>
+
+      <div className="h-80">
+        <Line data={data} options={options} plugins={plugins} />
+      </div>
+
+      <p className="mt-3 text-xs leading-5 text-slate-500">
+        {points.length < incomes.length ? (
+          <>Calculating… {points.length} of {incomes.length} incomes</>
+        ) : (
+          <>
+            Cash needed stays at {money(input.personalCashNeeded)}; the dashed line and markers are
+            your business income ({money(input.businessIncome)}).
+          </>
+        )}
+      </p>
+    </div>
+  );
+}
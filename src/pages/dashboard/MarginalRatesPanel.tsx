@@ -0,0 +1,84 @@
+// src/pages/dashboard/MarginalRatesPanel.tsx
+import React, { useMemo } from "react";
+import { MARGINAL_STEP, marginalRates, type CalcInput, type PayoutRate, type ScenarioOutput } from "@/engine";
+import { SCENARIO_CARDS, SCENARIO_OF, byScenario, type ScenarioKey } from "./results";
+import { money, pct } from "./ui";
+
+/* ------------ Marginal rates: what the next $1,000 costs in each scenario ------------ */
+const CARD_OF = Object.fromEntries(SCENARIO_CARDS.map((c) => [SCENARIO_OF[c.key], c]));
+
+function Payout({ rate }: { rate: PayoutRate | null }) {
+  if (!rate) return <span className="text-slate-400">—</span>;
+  return (
+    <>
+      <div className="font-medium text-slate-800">{pct(rate.combined)}</div>
+      <div className="text-xs text-slate-500">personal {pct(rate.personal)}</div>
+    </>
+  );
+}
+
+export default function MarginalRatesPanel({
+  input,
+  results,
+}: {
+  input: CalcInput;
+  results: Record<ScenarioKey, ScenarioOutput>;
+}) {
+  const rates = useMemo(() => marginalRates(input, byScenario(results)), [input, results]);
+
+  return (
+    <div className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm">
+      <h3 className="mb-4 text-sm font-semibold text-slate-700">Marginal Rates (next {money(MARGINAL_STEP)})</h3>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-left text-sm">
+          <thead>
+            <tr className="border-b border-slate-200 text-slate-500">
+              <th className="py-2 pr-4 font-medium">Scenario</th>
+              <th className="py-2 pr-4 font-medium">Business Income</th>
+              <th className="py-2 pr-4 font-medium">Salary</th>
+              <th className="py-2 pr-4 font-medium">Eligible Dividend</th>
+              <th className="py-2 pr-4 font-medium">Non-Eligible Dividend</th>
+              <th className="py-2 pr-2 font-medium">Retained in Corp</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {rates.map((m) => (
+              <tr key={m.scenario} className="align-top">
+                <td className="py-2 pr-4 text-slate-600">
+                  <span
+                    className="mr-2 inline-block h-2.5 w-2.5 rounded-full"
+                    style={{ backgroundColor: CARD_OF[m.scenario].color }}
+                  />
+                  {CARD_OF[m.scenario].title}
+                </td>
+                <td className="py-2 pr-4 font-medium text-slate-800">{pct(m.businessIncome)}</td>
+                <td className="py-2 pr-4">
+                  <Payout rate={m.salary} />
+                </td>
+                <td className="py-2 pr-4">
+                  <Payout rate={m.eligibleDividend} />
+                </td>
+                <td className="py-2 pr-4">
+                  <Payout rate={m.nonEligibleDividend} />
+                </td>
+                <td className="py-2 pr-2 font-medium text-slate-800">
+                  {m.retainedCorporate == null ? <span className="text-slate-400">—</span> : pct(m.retainedCorporate)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="mt-3 text-xs leading-5 text-slate-500">
+        Business income: tax, CPP and EI on {money(MARGINAL_STEP)} more income with cash needed
+        unchanged (the corporation keeps it). Salary and dividends: the share of {money(MARGINAL_STEP)}{" "}
+        of pre-tax corporate income lost when paid out on top of the scenario's pay — salary is
+        deductible, eligible dividends come from general-rate income and non-eligible dividends
+        from small-business income. "Personal" is the owner's own tax, CPP and EI on what they
+        receive; it's 0% while unused dividend tax credits still cover the tax.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+// src/pages/dashboard/ProjectionPanel.tsx
+import React, { useMemo, useState } from "react";
+import { projectRetainedEarnings, type CalcInput, type Scenario } from "@/engine";
+import { Label, NumberInput, money, selectClass } from "./ui";
+
+/* ------------ Retained earnings projection (incorporated scenarios) ------------ */
+const PROJECTED_SCENARIOS: Array<{ value: Scenario; label: string }> = [
+  { value: "INC_DIVIDENDS", label: "Incorporated – Dividends" },
+  { value: "INC_SALARY", label: "Incorporated – Salary" },
+  { value: "INC_MIXED", label: "Incorporated – Mix" },
+];
+
+export default function ProjectionPanel({ input }: { input: CalcInput }) {
+  const [scenario, setScenario] = useState<Scenario>("INC_DIVIDENDS");
+  const [years, setYears] = useState(10);
+  const [returnPct, setReturnPct] = useState(5);
+  const [openingBalance, setOpeningBalance] = useState(0);
+
+  const projection = useMemo(
+    () =>
+      projectRetainedEarnings({
+        ...input,
+        scenario,
+        years: Math.min(40, Math.max(1, years)),
+        returnRate: returnPct / 100,
+        openingBalance,
+      }),
+    [input, scenario, years, returnPct, openingBalance]
+  );
+
+  return (
+    <div className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm">
+      <h3 className="mb-4 text-sm font-semibold text-slate-700">Retained Earnings Projection</h3>
+
+      <div className="mb-4 grid grid-cols-1 gap-3 sm:grid-cols-4">
+        <div>
+          <Label>Scenario</Label>
+          <select
+            className={selectClass}
+            value={scenario}
+            onChange={(e) => setScenario(e.target.value as Scenario)}
+          >
+            {PROJECTED_SCENARIOS.map((s) => (
+              <option key={s.value} value={s.value}>
+                {s.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <Label>Years</Label>
+          <NumberInput value={years} onChange={setYears} prefix="#" step={1} min={1} />
+        </div>
+        <div>
+          <Label>Return (% / year)</Label>
+          <NumberInput value={returnPct} onChange={setReturnPct} prefix="%" step={0.5} />
+        </div>
+        <div>
+          <Label>Opening Balance</Label>
+          <NumberInput value={openingBalance} onChange={setOpeningBalance} />
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-left text-sm">
+          <thead>
+            <tr className="border-b border-slate-200 text-slate-500">
+              <th className="py-2 pr-4 font-medium">Year</th>
+              <th className="py-2 pr-4 font-medium">Opening</th>
+              <th className="py-2 pr-4 font-medium">Investment Income</th>
+              <th className="py-2 pr-4 font-medium">SBD Limit</th>
+              <th className="py-2 pr-4 font-medium">Corporate Tax</th>
+              <th className="py-2 pr-4 font-medium">Personal Draw</th>
+              <th className="py-2 pr-2 font-medium">Closing</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {projection.years.map((y) => (
+              <tr key={y.year}>
+                <td className="py-2 pr-4 text-slate-600">{y.taxYear}</td>
+                <td className="py-2 pr-4 font-medium text-slate-800">{money(y.openingBalance)}</td>
+                <td className="py-2 pr-4 font-medium text-slate-800">{money(y.investmentIncome)}</td>
+                <td className={`py-2 pr-4 font-medium ${y.smallBusinessLimit < projection.years[0].smallBusinessLimit ? "text-amber-600" : "text-slate-800"}`}>
+                  {money(y.smallBusinessLimit)}
+                </td>
+                <td className="py-2 pr-4 font-medium text-slate-800">{money(y.corporateTaxes)}</td>
+                <td className={`py-2 pr-4 font-medium ${y.cappedByAfterTaxProfit ? "text-amber-600" : "text-slate-800"}`}>
+                  {money(y.personalCash)}
+                </td>
+                <td className="py-2 pr-2 font-medium text-slate-800">{money(y.closingBalance)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="mt-3 text-xs leading-5 text-slate-500">
+        Investment income over $50k grinds the next year's small-business limit by $5 per $1
+        (gone at $150k) and is taxed at the full investment rate. Totals over{" "}
+        {projection.years.length} years: corporate tax {money(projection.totalCorporateTaxes)},
+        personal tax {money(projection.totalPersonalTaxes)}, personal draws{" "}
+        {money(projection.totalPersonalCash)}.
+      </p>
+    </div>
+  );
+}
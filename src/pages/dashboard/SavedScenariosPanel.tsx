@@ -0,0 +1,154 @@
+// src/pages/dashboard/SavedScenariosPanel.tsx
+import React, { useEffect, useRef, useState } from "react";
+import { downloadFile } from "@/export/download";
+import {
+  deleteScenario,
+  duplicateScenario,
+  libraryJson,
+  loadLibrary,
+  mergeLibrary,
+  parseLibraryJson,
+  renameScenario,
+  saveScenario,
+  storeLibrary,
+  type SavedScenario,
+} from "./savedScenarios";
+import type { SharedInputs } from "./shareLink";
+
+/* ------------ Saved scenarios: named input sets kept in this browser ------------ */
+const smallButton =
+  "rounded-xl border border-slate-200 bg-white px-2 py-1 text-xs font-medium text-slate-700 shadow-sm hover:bg-slate-50";
+
+const savedOn = (iso: string) => {
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime()) ? "" : d.toLocaleString("en-CA", { dateStyle: "medium", timeStyle: "short" });
+};
+
+export default function SavedScenariosPanel({
+  current,
+  onLoad,
+}: {
+  current: () => SharedInputs; // every Dashboard input right now
+  onLoad: (inputs: SharedInputs) => void;
+}) {
+  const [library, setLibrary] = useState<SavedScenario[]>(() => loadLibrary());
+  const [name, setName] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const first = useRef(true);
+
+  // Persist every change (not the initial load)
+  useEffect(() => {
+    if (first.current) {
+      first.current = false;
+      return;
+    }
+    if (!storeLibrary(library)) {
+      setMessage("This browser won't store saved scenarios here — export them to a file to keep them.");
+    }
+  }, [library]);
+
+  const overwrites = library.some((s) => s.name === name.trim());
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    setLibrary((l) => saveScenario(l, name, current()));
+    setMessage(`Saved “${name.trim()}”.`);
+  };
+
+  const handleRename = (s: SavedScenario) => {
+    const next = window.prompt("Rename saved scenario:", s.name);
+    if (next != null) setLibrary((l) => renameScenario(l, s.id, next));
+  };
+
+  const handleDelete = (s: SavedScenario) => {
+    if (window.confirm(`Delete “${s.name}”?`)) setLibrary((l) => deleteScenario(l, s.id));
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // the same file can be picked again
+    if (!file) return;
+    try {
+      const imported = parseLibraryJson(await file.text());
+      setLibrary((l) => mergeLibrary(l, imported));
+      setMessage(`Imported ${imported.length} scenario${imported.length === 1 ? "" : "s"}.`);
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : "Couldn't read that file.");
+    }
+  };
+
+  return (
+    <div className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm">
+      <h3 className="mb-4 text-sm font-semibold text-slate-700">Saved Scenarios</h3>
+
+      <div className="flex gap-2">
+        <input
+          className="min-w-0 flex-1 rounded-2xl border border-slate-200 bg-white px-3 py-2 text-sm shadow-sm outline-none focus:ring-2 focus:ring-indigo-500/30"
+          placeholder="e.g. Jane – 2025 draft"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleSave()}
+        />
+        <button
+          onClick={handleSave}
+          disabled={!name.trim()}
+          className="rounded-2xl bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-700 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {overwrites ? "Update" : "Save"}
+        </button>
+      </div>
+
+      {library.length > 0 ? (
+        <ul className="mt-4 divide-y divide-slate-100">
+          {library.map((s) => (
+            <li key={s.id} className="flex flex-wrap items-center gap-2 py-2">
+              <button
+                onClick={() => {
+                  setName(s.name);
+                  onLoad(s.inputs);
+                }}
+                className="min-w-0 flex-1 text-left"
+                title="Load these inputs"
+              >
+                <div className="truncate text-sm font-medium text-indigo-700 hover:underline">{s.name}</div>
+                <div className="text-xs text-slate-500">{savedOn(s.savedAt)}</div>
+              </button>
+              <button className={smallButton} onClick={() => setLibrary((l) => duplicateScenario(l, s.id))}>
+                Duplicate
+              </button>
+              <button className={smallButton} onClick={() => handleRename(s)}>
+                Rename
+              </button>
+              <button className={smallButton} onClick={() => handleDelete(s)}>
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-3 text-xs text-slate-500">Nothing saved yet. Name the current inputs and save them.</p>
+      )}
+
+      <div className="mt-4 flex gap-2">
+        <button
+          className={smallButton}
+          disabled={library.length === 0}
+          onClick={() => downloadFile("incorp-calc-scenarios.json", libraryJson(library), "application/json")}
+        >
+          Export JSON
+        </button>
+        <button className={smallButton} onClick={() => fileInput.current?.click()}>
+          Import JSON
+        </button>
+        <input ref={fileInput} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+      </div>
+
+      {message && <p className="mt-3 text-xs leading-5 text-slate-600">{message}</p>}
+      <p className="mt-2 text-xs leading-5 text-slate-500">
+        Saved in this browser only. Export a file to back up your client library or move it to
+        another computer.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,277 @@
+// src/pages/dashboard/results.tsx
+import React from "react";
+import type { Scenario, ScenarioOutput } from "@/engine";
+import { money, pct } from "./ui";
+
+/* ------------ Dashboard keys → engine scenarios ------------ */
+export type ScenarioKey = "uninc" | "salary" | "dividends" | "mixed";
+export const SCENARIO_OF: Record<ScenarioKey, Scenario> = {
+  uninc: "UNINCORPORATED",
+  salary: "INC_SALARY",
+  dividends: "INC_DIVIDENDS",
+  mixed: "INC_MIXED",
+};
+
+/** Dashboard-keyed results → engine-keyed (for recommendScenario and the exports) */
+export function byScenario(results: Record<ScenarioKey, ScenarioOutput>) {
+  return Object.fromEntries(
+    (Object.keys(SCENARIO_OF) as ScenarioKey[]).map((k) => [SCENARIO_OF[k], results[k]])
+  ) as Record<Scenario, ScenarioOutput>;
+}
+
+/** One card per scenario, in display order */
+export const SCENARIO_CARDS: Array<{ key: ScenarioKey; title: string; color: string }> = [
+  { key: "uninc", title: "Not Incorporated", color: "#fb7185" },
+  { key: "salary", title: "Incorporated – Salary", color: "#60a5fa" },
+  { key: "dividends", title: "Incorporated – Dividends", color: "#34d399" },
+  { key: "mixed", title: "Incorporated – Salary + Dividend Mix", color: "#a78bfa" },
+];
+
+/* ------------ Itemized credits in the breakdown (tax value, fed + prov) ------------ */
+const CREDIT_ROWS: Array<[string, keyof ScenarioOutput["credits"]]> = [
+  ["— Credit: Basic personal", "basicPersonal"],
+  ["— Credit: Canada employment", "canadaEmployment"],
+  ["— Credit: CPP contributions", "cpp"],
+  ["— Credit: EI premiums", "ei"],
+  ["— Credit: Age", "age"],
+  ["— Credit: Pension", "pension"],
+  ["— Credit: Disability", "disability"],
+  ["— Credit: Tuition", "tuition"],
+  ["— Provincial tax reduction", "taxReduction"],
+];
+
+/* ------------ Scenario card (shows split on Dividends) ------------ */
+export function ScenarioCard({
+  title,
+  color,
+  data,
+}: {
+  title: string;
+  color: string;
+  data?: ScenarioOutput;
+}) {
+  return (
+    <div className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm">
+      <div className="mb-3 flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-slate-700 whitespace-nowrap">
+          {title}
+        </h3>
+        <span className="h-2 w-2 rounded-full" style={{ background: color }} />
+      </div>
+
+      {!data ? (
+        <div className="text-sm text-slate-500">Enter inputs and click Calculate.</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+            {[
+              ["Total Taxes", money(data.totalTaxes)],
+              ["Effective Rate", pct(data.totalTaxRate)],
+              ["Personal Cash", money(data.personalCash)],
+              ["Corporate Cash", money(data.corporateCash)],
+            ].map(([label, val]) => (
+              <div key={label}>
+                <div className="text-[10px] font-semibold tracking-wide text-slate-500/90 uppercase whitespace-nowrap">
+                  {label}
+                </div>
+                <div className="mt-0.5 text-lg font-semibold text-slate-900 tabular-nums whitespace-nowrap">
+                  {val}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Dividend split caption (plus salary on the mix) */}
+          <div className="mt-2 text-xs text-slate-600">
+            {data.scenario === "INC_MIXED" && (
+              <span className="mr-4">
+                Salary:{" "}
+                <span className="font-medium tabular-nums">{money(data.grossSalary)}</span>
+              </span>
+            )}
+            <span className="mr-4">
+              Non-eligible:{" "}
+              <span className="font-medium tabular-nums">{money(data.nonEligibleDividends)}</span>
+            </span>
+            <span>
+              Eligible:{" "}
+              <span className="font-medium tabular-nums">{money(data.eligibleDividends)}</span>
+            </span>
+            {data.capitalDividends > 0 && (
+              <span className="ml-4">
+                Capital (tax-free):{" "}
+                <span className="font-medium tabular-nums">{money(data.capitalDividends)}</span>
+              </span>
+            )}
+          </div>
+
+          {/* Extra personal tax: AMT and OAS recovery */}
+          {(data.amt > 0 || data.oasClawback > 0) && (
+            <ul className="mt-2 space-y-0.5 text-xs text-amber-700">
+              {data.amt > 0 && (
+                <li>
+                  AMT applies: +<span className="font-medium tabular-nums">{money(data.amt)}</span>{" "}
+                  (credit recoverable in later years)
+                </li>
+              )}
+              {data.oasClawback > 0 && (
+                <li>
+                  OAS clawback: +<span className="font-medium tabular-nums">{money(data.oasClawback)}</span>
+                </li>
+              )}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+/* ------------ Simple CSS bar comparison (hardened) ------------ */
+export function ComparisonBars({
+  results,
+}: {
+  results: Record<ScenarioKey, ScenarioOutput>;
+}) {
+  const val = (v: unknown) => (Number.isFinite(v as number) ? (v as number) : 0);
+
+  const maxTax =
+    Math.max(
+      val(results.uninc?.totalTaxes),
+      val(results.salary?.totalTaxes),
+      val(results.dividends?.totalTaxes),
+      val(results.mixed?.totalTaxes)
+    ) || 1;
+
+  const rows: Array<{ key: ScenarioKey; label: string; color: string }> = [
+    { key: "uninc", label: "Not Incorporated", color: "#fb7185" },
+    { key: "salary", label: "Incorporated – Salary", color: "#60a5fa" },
+    { key: "dividends", label: "Incorporated – Dividends", color: "#34d399" },
+    { key: "mixed", label: "Incorporated – Mix", color: "#a78bfa" },
+  ];
+
+  return (
+    <div className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm">
+      <h3 className="mb-4 text-sm font-semibold text-slate-700">Tax & CPP Comparison</h3>
+      <div className="flex flex-col gap-3">
+        {rows.map((r) => {
+          const tax = val(results[r.key]?.totalTaxes) + val(results[r.key]?.totalCPP);
+          const w = Math.max(6, Math.round((tax / maxTax) * 100));
+          return (
+            <div key={r.key} className="flex items-center gap-3">
+              <div className="w-40 text-xs text-slate-600">{r.label}</div>
+              <div className="h-8 flex-1 rounded-full bg-slate-100">
+                <div
+                  className="h-8 rounded-full"
+                  style={{ width: `${w}%`, background: r.color }}
+                  title={money(tax)}
+                />
+              </div>
+              <div className="w-28 text-right text-sm font-medium text-slate-800">
+                {money(tax)}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+/* ------------ Detailed breakdown: every line item, side by side ------------ */
+export function BreakdownTable({
+  results,
+  actions,
+}: {
+  results: Record<ScenarioKey, ScenarioOutput>;
+  actions?: React.ReactNode; // e.g. export buttons, next to the title
+}) {
+  return (
+    <div className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm">
+      <div className="mb-4 flex items-center justify-between gap-3">
+        <h3 className="text-sm font-semibold text-slate-700">
+          Detailed Breakdown
+        </h3>
+        {actions}
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-left text-sm">
+          <thead>
+            <tr className="border-b border-slate-200 text-slate-500">
+              <th className="py-2 pr-4 font-medium">Line Item</th>
+              <th className="py-2 pr-4 font-medium">Not Inc.</th>
+              <th className="py-2 pr-4 font-medium">Inc. Salary</th>
+              <th className="py-2 pr-4 font-medium">Inc. Dividends</th>
+              <th className="py-2 pr-4 font-medium">Inc. Mix</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {[
+              ["Salary",                   0, results.salary.grossSalary ?? 0, 0, results.mixed.grossSalary ?? 0],
+              ["Dividends — non-eligible", 0, 0, results.dividends.nonEligibleDividends ?? 0, results.mixed.nonEligibleDividends ?? 0],
+              ["Dividends — eligible",     0, 0, results.dividends.eligibleDividends ?? 0,     results.mixed.eligibleDividends ?? 0],
+              ["Capital dividends (tax-free)", 0, 0, results.dividends.capitalDividends, results.mixed.capitalDividends],
+
+              ["Personal Taxes",  results.uninc.personalTaxes,   results.salary.personalTaxes,   results.dividends.personalTaxes,   results.mixed.personalTaxes],
+              ["— AMT",           results.uninc.amt,             results.salary.amt,             results.dividends.amt,             results.mixed.amt],
+              ["— OAS Clawback",  results.uninc.oasClawback,     results.salary.oasClawback,     results.dividends.oasClawback,     results.mixed.oasClawback],
+              ...CREDIT_ROWS.map(([label, key]) => [
+                label,
+                results.uninc.credits[key],
+                results.salary.credits[key],
+                results.dividends.credits[key],
+                results.mixed.credits[key],
+              ]),
+              ["Corporate Taxes", results.uninc.corporateTaxes, results.salary.corporateTaxes, results.dividends.corporateTaxes, results.mixed.corporateTaxes],
+              ["— Investment Taxes (Part I + IV)", results.uninc.investmentTaxes, results.salary.investmentTaxes, results.dividends.investmentTaxes, results.mixed.investmentTaxes],
+              ["— Dividend Refund",                -results.uninc.dividendRefund,  -results.salary.dividendRefund,  -results.dividends.dividendRefund,  -results.mixed.dividendRefund],
+              ["RRSP Contribution", results.uninc.rrspContribution, results.salary.rrspContribution, results.dividends.rrspContribution, results.mixed.rrspContribution],
+              ["RRSP Refund",       results.uninc.rrspRefund,        results.salary.rrspRefund,        results.dividends.rrspRefund,        results.mixed.rrspRefund],
+              ["IPP Contribution (corporate)", 0, results.salary.pensionContribution, 0, 0],
+              ["Pension Adjustment",           0, results.salary.pensionAdjustment,    0, 0],
+              ["CPP (Total)",     results.uninc.totalCPP,        results.salary.totalCPP,        results.dividends.totalCPP,        results.mixed.totalCPP],
+              ["EI (Total)",      results.uninc.totalEI,         results.salary.totalEI,         results.dividends.totalEI,         results.mixed.totalEI],
+              ["Employer Health Tax (BC)", 0, results.salary.employerHealthTax, 0, results.mixed.employerHealthTax],
+              ["WorkSafeBC Premium",       0, results.salary.worksafePremium,    0, results.mixed.worksafePremium],
+              ["Total Taxes",     results.uninc.totalTaxes,      results.salary.totalTaxes,      results.dividends.totalTaxes,      results.mixed.totalTaxes],
+              ["Effective Rate",  results.uninc.totalTaxRate,    results.salary.totalTaxRate,    results.dividends.totalTaxRate,    results.mixed.totalTaxRate, true],
+              ["Personal Cash",   results.uninc.personalCash,    results.salary.personalCash,    results.dividends.personalCash,    results.mixed.personalCash],
+              ["RRSP Saved",      results.uninc.rrspSaved,       results.salary.rrspSaved,       results.dividends.rrspSaved,       results.mixed.rrspSaved],
+              ["Corporate Cash",  results.uninc.corporateCash,   results.salary.corporateCash,   results.dividends.corporateCash,   results.mixed.corporateCash],
+              ["CDA (closing)",   results.uninc.cdaBalance,      results.salary.cdaBalance,      results.dividends.cdaBalance,      results.mixed.cdaBalance],
+              ["RDTOH (closing)", results.uninc.rdtohEligible + results.uninc.rdtohNonEligible, results.salary.rdtohEligible + results.salary.rdtohNonEligible, results.dividends.rdtohEligible + results.dividends.rdtohNonEligible, results.mixed.rdtohEligible + results.mixed.rdtohNonEligible],
+            ].map((row, idx) => {
+              const isPct = row[5] === true;
+              const v1 = row[1] as number;
+              const v2 = row[2] as number;
+              const v3 = row[3] as number;
+              const v4 = row[4] as number;
+              return (
+                <tr key={idx}>
+                  <td className="py-2 pr-4 text-slate-600">{row[0] as string}</td>
+                  <td className="py-2 pr-4 font-medium text-slate-800">
+                    {isPct ? pct(v1) : money(v1)}
+                  </td>
+                  <td className="py-2 pr-4 font-medium text-slate-800">
+                    {isPct ? pct(v2) : money(v2)}
+                  </td>
+                  <td className="py-2 pr-4 font-medium text-slate-800">
+                    {isPct ? pct(v3) : money(v3)}
+                  </td>
+                  <td className="py-2 pr-2 font-medium text-slate-800">
+                    {isPct ? pct(v4) : money(v4)}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      {results.salary.pensionContribution > 0 && (
+        <p className="mt-3 text-xs text-slate-500">
+          The IPP is funded in the salary scenario only; the salary/dividend mix leaves it out.
+        </p>
+      )}
+    </div>
+  );
+}
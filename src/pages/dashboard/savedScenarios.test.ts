@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import {
+  LIBRARY_FORMAT,
+  LIBRARY_VERSION,
+  SAVED_SCENARIOS_KEY,
+  copyName,
+  deleteScenario,
+  duplicateScenario,
+  libraryJson,
+  loadLibrary,
+  mergeLibrary,
+  parseLibraryJson,
+  readLibrary,
+  renameScenario,
+  saveScenario,
+  storeLibrary,
+  type SavedScenario,
+} from "./savedScenarios";
+
+const entry = (id: string, name: string, businessIncome = 100_000): SavedScenario => ({
+  id,
+  name,
+  savedAt: "2025-01-01T00:00:00.000Z",
+  inputs: { input: { businessIncome } },
+});
+
+/** In-memory Storage; `blocked` throws like a browser that refuses storage */
+function memoryStorage(blocked = false): Storage {
+  const data = new Map<string, string>();
+  return {
+    get length() {
+      return data.size;
+    },
+    clear: () => data.clear(),
+    key: (i) => [...data.keys()][i] ?? null,
+    getItem: (k) => data.get(k) ?? null,
+    setItem: (k, v) => {
+      if (blocked) throw new Error("QuotaExceededError");
+      data.set(k, v);
+    },
+    removeItem: (k) => void data.delete(k),
+  };
+}
+
+describe("library operations", () => {
+  it("saves a new name on top and updates an existing one in place", () => {
+    let list = saveScenario([], "Jane", { input: { businessIncome: 1 } });
+    list = saveScenario(list, "Bob", { input: { businessIncome: 2 } });
+    list = saveScenario(list, "  Jane ", { input: { businessIncome: 3 } });
+
+    expect(list.map((s) => s.name)).toEqual(["Bob", "Jane"]);
+    expect(list[1].inputs.input.businessIncome).toBe(3);
+  });
+
+  it("renames (ignoring blank names) and deletes by id", () => {
+    const list = [entry("a", "Jane"), entry("b", "Bob")];
+    expect(renameScenario(list, "a", " Jane S. ").map((s) => s.name)).toEqual(["Jane S.", "Bob"]);
+    expect(renameScenario(list, "a", "   ")).toBe(list);
+    expect(deleteScenario(list, "a").map((s) => s.id)).toEqual(["b"]);
+  });
+
+  it("duplicates right after the original with a numbered copy name", () => {
+    let list = [entry("a", "Jane"), entry("b", "Bob")];
+    list = duplicateScenario(list, "a");
+    list = duplicateScenario(list, "a");
+
+    expect(list.map((s) => s.name)).toEqual(["Jane", "Jane (copy 2)", "Jane (copy)", "Bob"]);
+    expect(new Set(list.map((s) => s.id)).size).toBe(4);
+    expect(copyName("Bob", list)).toBe("Bob (copy)");
+  });
+});
+
+describe("mergeLibrary", () => {
+  it("replaces entries with the same id and puts new ones on top", () => {
+    const stored = [entry("a", "Jane"), entry("b", "Bob")];
+    const imported = [entry("b", "Bob (from file)", 250_000), entry("c", "Ann")];
+
+    const merged = mergeLibrary(stored, imported);
+    expect(merged.map((s) => [s.id, s.name])).toEqual([
+      ["c", "Ann"],
+      ["a", "Jane"],
+      ["b", "Bob (from file)"],
+    ]);
+    expect(merged[2].inputs.input.businessIncome).toBe(250_000);
+  });
+
+  it("is idempotent when re-importing its own export", () => {
+    const stored = [entry("a", "Jane"), entry("b", "Bob")];
+    expect(mergeLibrary(stored, parseLibraryJson(libraryJson(stored)))).toEqual(stored);
+  });
+});
+
+describe("reading a library file", () => {
+  it("round-trips through libraryJson", () => {
+    const list = [entry("a", "Jane"), entry("b", "Bob")];
+    const parsed = JSON.parse(libraryJson(list));
+    expect(parsed).toMatchObject({ format: LIBRARY_FORMAT, version: LIBRARY_VERSION });
+    expect(parseLibraryJson(libraryJson(list))).toEqual(list);
+  });
+
+  it.each([
+    ["text that isn't JSON", "{oops", /isn't valid JSON/],
+    ["someone else's JSON", JSON.stringify({ scenarios: [] }), /Not a saved-scenarios file/],
+    ["a bare array", JSON.stringify([entry("a", "Jane")]), /Not a saved-scenarios file/],
+    ["a newer format", JSON.stringify({ format: LIBRARY_FORMAT, version: LIBRARY_VERSION + 1, scenarios: [] }), /newer version/],
+  ])("rejects %s", (_, text, error) => {
+    expect(() => parseLibraryJson(text)).toThrow(error);
+  });
+
+  it("drops unusable entries and invalid inputs, and fills in missing ids", () => {
+    const list = readLibrary({
+      format: LIBRARY_FORMAT,
+      version: LIBRARY_VERSION,
+      scenarios: [
+        null,
+        "Jane",
+        { id: "x", name: "   " },
+        { name: "No id", inputs: { input: { businessIncome: -1, province: "AB" } } },
+      ],
+    });
+    expect(list).toHaveLength(1);
+    expect(list[0].id).toBeTruthy();
+    expect(list[0].name).toBe("No id");
+    expect(list[0].inputs).toEqual({ input: { province: "AB" } });
+  });
+});
+
+describe("browser storage", () => {
+  it("stores and loads the library under one key", () => {
+    const storage = memoryStorage();
+    const list = [entry("a", "Jane")];
+    expect(storeLibrary(list, storage)).toBe(true);
+    expect(storage.getItem(SAVED_SCENARIOS_KEY)).toContain(LIBRARY_FORMAT);
+    expect(loadLibrary(storage)).toEqual(list);
+  });
+
+  it("falls back to an empty library and reports refused writes", () => {
+    const storage = memoryStorage(true);
+    expect(storeLibrary([entry("a", "Jane")], storage)).toBe(false);
+    expect(loadLibrary(storage)).toEqual([]);
+
+    const corrupt = memoryStorage();
+    corrupt.setItem(SAVED_SCENARIOS_KEY, "{not json");
+    expect(loadLibrary(corrupt)).toEqual([]);
+  });
+});
@@ -0,0 +1,147 @@
+// src/pages/dashboard/savedScenarios.ts
+import { parseSharedInputs, type SharedInputs } from "./shareLink";
+
+/**
+ * Saved scenarios — a named client library in the browser, no backend
+ * - Each entry is a snapshot of every Dashboard input (the same shape as a share link),
+ *   kept in localStorage under one key.
+ * - The library exports to / imports from a JSON file, so it can move between browsers
+ *   or be kept with the client's file. Importing merges: an entry with the same id
+ *   (re-importing an export) replaces the stored one, anything else is added.
+ * - Reading is defensive like share links: inputs go through `parseSharedInputs`, and
+ *   entries without a name are dropped.
+ * - Storage can be unavailable (private mode, blocked in an iframe, quota): reads
+ *   fall back to an empty library and writes report failure instead of throwing.
+ */
+
+export const SAVED_SCENARIOS_KEY = "incorp-calc:saved-scenarios";
+export const LIBRARY_FORMAT = "incorp-calc-library";
+export const LIBRARY_VERSION = 1;
+
+export type SavedScenario = {
+  id: string;
+  name: string;
+  savedAt: string;   // ISO timestamp of the last save / rename
+  inputs: SharedInputs;
+};
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/* ---------- reading (untrusted: storage or a file) ---------- */
+
+function readEntry(raw: unknown): SavedScenario | undefined {
+  if (typeof raw !== "object" || raw === null) return undefined;
+  const o = raw as Record<string, unknown>;
+  const name = typeof o.name === "string" ? o.name.trim() : "";
+  if (!name) return undefined;
+
+  return {
+    id: typeof o.id === "string" && o.id ? o.id : newId(),
+    name,
+    savedAt: typeof o.savedAt === "string" ? o.savedAt : new Date().toISOString(),
+    inputs: parseSharedInputs(o.inputs),
+  };
+}
+
+/** Entries from a library document (stored or exported); throws on a foreign file */
+export function readLibrary(data: unknown): SavedScenario[] {
+  const o = typeof data === "object" && data !== null ? (data as Record<string, unknown>) : {};
+  if (o.format !== LIBRARY_FORMAT || !Array.isArray(o.scenarios)) {
+    throw new Error("Not a saved-scenarios file from this calculator.");
+  }
+  if (typeof o.version !== "number" || o.version > LIBRARY_VERSION) {
+    throw new Error("This file was saved by a newer version of the calculator.");
+  }
+  return o.scenarios.map(readEntry).filter((s): s is SavedScenario => s !== undefined);
+}
+
+/* ---------- browser storage ---------- */
+
+// Even touching window.localStorage throws where storage is blocked, hence the try blocks
+export function loadLibrary(storage?: Storage): SavedScenario[] {
+  try {
+    const raw = (storage ?? globalThis.localStorage)?.getItem(SAVED_SCENARIOS_KEY);
+    return raw ? readLibrary(JSON.parse(raw)) : [];
+  } catch {
+    return [];
+  }
+}
+
+/** false when the browser refused (nothing was saved) */
+export function storeLibrary(list: SavedScenario[], storage?: Storage) {
+  try {
+    const target = storage ?? globalThis.localStorage;
+    if (!target) return false;
+    target.setItem(SAVED_SCENARIOS_KEY, libraryJson(list));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/* ---------- library operations (pure: return a new list) ---------- */
+
+/** Save under `name`: replaces an entry with the same name, else adds one at the top */
+export function saveScenario(list: SavedScenario[], name: string, inputs: SharedInputs): SavedScenario[] {
+  const trimmed = name.trim();
+  const savedAt = new Date().toISOString();
+  const existing = list.find((s) => s.name === trimmed);
+  if (existing) return list.map((s) => (s === existing ? { ...s, savedAt, inputs } : s));
+  return [{ id: newId(), name: trimmed, savedAt, inputs }, ...list];
+}
+
+export function renameScenario(list: SavedScenario[], id: string, name: string): SavedScenario[] {
+  const trimmed = name.trim();
+  if (!trimmed) return list;
+  return list.map((s) => (s.id === id ? { ...s, name: trimmed, savedAt: new Date().toISOString() } : s));
+}
+
+/** "Jane – 2025 draft" → "Jane – 2025 draft (copy)", then "(copy 2)", … */
+export function copyName(name: string, list: SavedScenario[]) {
+  const names = new Set(list.map((s) => s.name));
+  for (let n = 1; ; n++) {
+    const candidate = `${name} (copy${n > 1 ? ` ${n}` : ""})`;
+    if (!names.has(candidate)) return candidate;
+  }
+}
+
+/** Copy placed right after the original */
+export function duplicateScenario(list: SavedScenario[], id: string): SavedScenario[] {
+  const i = list.findIndex((s) => s.id === id);
+  if (i < 0) return list;
+  const copy = { ...list[i], id: newId(), name: copyName(list[i].name, list), savedAt: new Date().toISOString() };
+  return [...list.slice(0, i + 1), copy, ...list.slice(i + 1)];
+}
+
+export function deleteScenario(list: SavedScenario[], id: string): SavedScenario[] {
+  return list.filter((s) => s.id !== id);
+}
+
+/** Imported entries replace stored ones with the same id; new ones go on top */
+export function mergeLibrary(list: SavedScenario[], imported: SavedScenario[]): SavedScenario[] {
+  const byId = new Map(imported.map((s) => [s.id, s]));
+  const updated = list.map((s) => byId.get(s.id) ?? s);
+  const added = imported.filter((s) => !list.some((e) => e.id === s.id));
+  return [...added, ...updated];
+}
+
+/* ---------- JSON file ---------- */
+
+export function libraryJson(list: SavedScenario[]) {
+  return JSON.stringify(
+    { format: LIBRARY_FORMAT, version: LIBRARY_VERSION, exportedAt: new Date().toISOString(), scenarios: list },
+    null,
+    2
+  );
+}
+
+/** Entries from an exported file's text; throws with a readable message */
+export function parseLibraryJson(text: string): SavedScenario[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file isn't valid JSON.");
+  }
+  return readLibrary(data);
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { LATEST_PUBLISHED_YEAR, PUBLISHED_YEARS } from "@/engine";
+import { SHARE_LINK_VERSION, readCalcInput, readShareLink, shareHash, shareLinkFor, type SharedInputs } from "./shareLink";
+
+const shared: SharedInputs = {
+  input: {
+    businessIncome: 180_000,
+    personalCashNeeded: 90_000,
+    province: "ON",
+    taxYear: 2026,
+    inflationRate: 0.025,
+    mixObjective: "MAX_TOTAL_CASH",
+    rrspContributeAllRoom: true,
+    investmentIncome: { interest: 1_000, foreignIncome: 0, capitalGains: 5_000, canadianDividends: 0 },
+    ipp: { age: 52, yearsOfService: 12 },
+  },
+  compareYear: 2025,
+  householdMode: true,
+  family: [{ name: "Renée", relation: "SPOUSE", age: 48, dividends: 30_000, exemption: "EXCLUDED_SHARES" }],
+};
+
+/** A hash with any payload, base64url-encoded like the real thing */
+const hashWith = (payload: unknown, version: unknown = SHARE_LINK_VERSION) => {
+  const s = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `#${new URLSearchParams({ v: String(version), s })}`;
+};
+
+describe("share links", () => {
+  it("round-trip every input, including non-ASCII names", () => {
+    expect(readShareLink(shareHash(shared))).toEqual(shared);
+  });
+
+  it("replace any existing hash on the page URL", () => {
+    const link = shareLinkFor("https://calc.example.com/?ref=x#old", shared);
+    expect(link.startsWith("https://calc.example.com/?ref=x#v=1&s=")).toBe(true);
+    expect(readShareLink(new URL(link).hash)).toEqual(shared);
+  });
+
+  it("ignore other versions and a missing payload", () => {
+    expect(readShareLink(hashWith(shared, SHARE_LINK_VERSION + 1))).toBeNull();
+    expect(readShareLink(hashWith(shared, "x"))).toBeNull();
+    expect(readShareLink(`#v=${SHARE_LINK_VERSION}`)).toBeNull();
+    expect(readShareLink("")).toBeNull();
+  });
+
+  it("ignore payloads that aren't base64url JSON", () => {
+    expect(readShareLink(`#v=${SHARE_LINK_VERSION}&s=%%%`)).toBeNull();
+    expect(readShareLink(`#v=${SHARE_LINK_VERSION}&s=${Buffer.from("{not json").toString("base64url")}`)).toBeNull();
+  });
+
+  it("drop out-of-range and mistyped values, keeping the rest", () => {
+    const r = readShareLink(
+      hashWith({
+        input: {
+          businessIncome: -5_000,
+          personalCashNeeded: "90000",
+          otherExpenses: 2_500,
+          province: "QC",
+          taxYear: PUBLISHED_YEARS[0] - 1,
+          inflationRate: 3,
+          age: 400,
+          investmentIncome: { interest: -1, foreignIncome: 0, capitalGains: 0, canadianDividends: 0 },
+        },
+        compareYear: LATEST_PUBLISHED_YEAR + 50,
+        family: [{ name: "Kid", relation: "ADULT_CHILD", age: -3 }, { name: "Ok", relation: "SPOUSE", age: 40, salary: -1 }],
+      })
+    );
+    expect(r).toEqual({ input: { otherExpenses: 2_500 }, family: [{ name: "Ok", relation: "SPOUSE", age: 40 }] });
+  });
+});
+
+describe("readCalcInput", () => {
+  it("accepts projected years the Dashboard offers, whole years only", () => {
+    expect(readCalcInput({ taxYear: LATEST_PUBLISHED_YEAR + 5 })).toEqual({ taxYear: LATEST_PUBLISHED_YEAR + 5 });
+    expect(readCalcInput({ taxYear: LATEST_PUBLISHED_YEAR + 6 })).toEqual({});
+    expect(readCalcInput({ taxYear: 2025.5 })).toEqual({});
+  });
+
+  it("returns nothing for non-objects", () => {
+    expect(readCalcInput(null)).toEqual({});
+    expect(readCalcInput([1, 2])).toEqual({});
+    expect(readCalcInput("businessIncome=1")).toEqual({});
+  });
+});
@@ -0,0 +1,193 @@
+// src/pages/dashboard/shareLink.ts
+import {
+  EI_STATUSES,
+  LATEST_PUBLISHED_YEAR,
+  PROVINCES,
+  PUBLISHED_YEARS,
+  type CalcInput,
+  type FamilyMember,
+  type FamilyRelation,
+  type MixObjective,
+  type TosiExemption,
+} from "@/engine";
+
+/**
+ * Shareable links — every Dashboard input in the URL
+ * - The inputs go in the hash (`#v=1&s=…`, s = base64url JSON), so a client's numbers
+ *   never reach a server log.
+ * - `v` is the link format version. Bump it when a field changes meaning, and teach
+ *   `parseSharedInputs` to read the old version; unknown versions are ignored.
+ * - Reading is defensive: every field is type- and range-checked (no negative amounts, tax
+ *   years the Dashboard offers) and anything unexpected is dropped, so a hand-edited or
+ *   truncated link falls back to the defaults instead of breaking.
+ */
+
+export const SHARE_LINK_VERSION = 1;
+
+export type SharedInputs = {
+  input: Partial<CalcInput>;
+  compareYear?: number | null;
+  householdMode?: boolean;
+  family?: FamilyMember[];
+};
+
+const MIX_OBJECTIVES: MixObjective[] = ["MIN_TAX_AND_CPP", "MAX_TOTAL_CASH"];
+const RELATIONS: FamilyRelation[] = ["SPOUSE", "ADULT_CHILD"];
+const EXEMPTIONS: TosiExemption[] = ["NONE", "EXCLUDED_BUSINESS", "EXCLUDED_SHARES"];
+
+// Projected years the Dashboard offers after the latest published one
+const MAX_PROJECTED_YEARS = 5;
+const MAX_AGE = 120;
+
+/** Non-negative amounts */
+const AMOUNT_FIELDS = [
+  "businessIncome",
+  "personalCashNeeded",
+  "otherExpenses",
+  "priorYearInvestmentIncome",
+  "openingCda",
+  "rrspContribution",
+  "rrspCarryForwardRoom",
+  "oasPension",
+  "amtCarryForward",
+  "pensionIncome",
+  "tuition",
+  "worksafeRate",
+] as const;
+
+const BOOLEAN_FIELDS = ["rrspContributeAllRoom", "disability", "eiSelfEmployedOptIn"] as const;
+
+/* ---------- field readers (undefined = missing or invalid) ---------- */
+
+type Obj = Record<string, unknown>;
+
+const isObj = (v: unknown): v is Obj => typeof v === "object" && v !== null && !Array.isArray(v);
+const num = (v: unknown) => (typeof v === "number" && Number.isFinite(v) ? v : undefined);
+const inRange = (v: unknown, min = 0, max = Number.POSITIVE_INFINITY) => {
+  const n = num(v);
+  return n !== undefined && n >= min && n <= max ? n : undefined;
+};
+const taxYear = (v: unknown) => {
+  const y = inRange(v, PUBLISHED_YEARS[0], LATEST_PUBLISHED_YEAR + MAX_PROJECTED_YEARS);
+  return y !== undefined && Number.isInteger(y) ? y : undefined;
+};
+const bool = (v: unknown) => (typeof v === "boolean" ? v : undefined);
+const oneOf = <T extends string>(v: unknown, options: readonly T[]) =>
+  options.includes(v as T) ? (v as T) : undefined;
+
+/** Only the keys whose value isn't undefined */
+function defined<T extends Obj>(o: T): Partial<T> {
+  return Object.fromEntries(Object.entries(o).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+function numbers<K extends string>(o: unknown, keys: readonly K[]): Record<K, number> | undefined {
+  if (!isObj(o)) return undefined;
+  const values = keys.map((k) => inRange(o[k]));
+  if (values.some((v) => v === undefined)) return undefined;
+  return Object.fromEntries(keys.map((k, i) => [k, values[i]])) as Record<K, number>;
+}
+
+function readMember(m: unknown): FamilyMember | undefined {
+  if (!isObj(m)) return undefined;
+  const relation = oneOf(m.relation, RELATIONS);
+  const age = inRange(m.age, 0, MAX_AGE);
+  if (typeof m.name !== "string" || !relation || age === undefined) return undefined;
+
+  return {
+    name: m.name,
+    relation,
+    age,
+    ...defined({
+      salary: inRange(m.salary),
+      dividends: inRange(m.dividends),
+      otherIncome: inRange(m.otherIncome),
+      exemption: oneOf(m.exemption, EXEMPTIONS),
+      eiStatus: oneOf(m.eiStatus, EI_STATUSES),
+    }),
+  };
+}
+
+/** Calculator inputs from untrusted data (a link, a saved file, a message) */
+export function readCalcInput(raw: unknown): Partial<CalcInput> {
+  if (!isObj(raw)) return {};
+
+  return defined({
+    ...Object.fromEntries(AMOUNT_FIELDS.map((k) => [k, inRange(raw[k])])),
+    taxYear: taxYear(raw.taxYear),
+    inflationRate: inRange(raw.inflationRate, 0, 1),
+    age: inRange(raw.age, 0, MAX_AGE),
+    ...Object.fromEntries(BOOLEAN_FIELDS.map((k) => [k, bool(raw[k])])),
+    province: oneOf(raw.province, PROVINCES),
+    mixObjective: oneOf(raw.mixObjective, MIX_OBJECTIVES),
+    eiStatus: oneOf(raw.eiStatus, EI_STATUSES),
+    investmentIncome: numbers(raw.investmentIncome, [
+      "interest",
+      "foreignIncome",
+      "capitalGains",
+      "canadianDividends",
+    ] as const),
+    openingRdtoh: numbers(raw.openingRdtoh, ["eligible", "nonEligible"] as const),
+    ipp: numbers(raw.ipp, ["age", "yearsOfService"] as const),
+  }) as Partial<CalcInput>;
+}
+
+/** Dashboard state from a decoded link payload (already version-checked) */
+export function parseSharedInputs(data: unknown): SharedInputs {
+  const o = isObj(data) ? data : {};
+  const compareYear = o.compareYear === null ? null : taxYear(o.compareYear);
+
+  return {
+    input: readCalcInput(o.input),
+    ...defined({
+      compareYear,
+      householdMode: bool(o.householdMode),
+      family: Array.isArray(o.family)
+        ? o.family.map(readMember).filter((m): m is FamilyMember => m !== undefined)
+        : undefined,
+    }),
+  };
+}
+
+/* ---------- base64url (UTF-8 safe: names can have accents) ---------- */
+
+function toBase64Url(text: string) {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(encoded: string) {
+  const b64 = encoded.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(b64 + "=".repeat((4 - (b64.length % 4)) % 4));
+  return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+}
+
+/* ---------- public API ---------- */
+
+/** Hash fragment (with the leading #) for these inputs */
+export function shareHash(shared: SharedInputs) {
+  const params = new URLSearchParams({
+    v: String(SHARE_LINK_VERSION),
+    s: toBase64Url(JSON.stringify(shared)),
+  });
+  return `#${params.toString()}`;
+}
+
+/** Full link: the current page with the inputs in the hash */
+export function shareLinkFor(href: string, shared: SharedInputs) {
+  return href.split("#")[0] + shareHash(shared);
+}
+
+/** Inputs from a location hash, or null if there's no (readable) shared scenario */
+export function readShareLink(hash: string): SharedInputs | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  const payload = params.get("s");
+  if (!payload || Number(params.get("v")) !== SHARE_LINK_VERSION) return null;
+
+  try {
+    return parseSharedInputs(JSON.parse(fromBase64Url(payload)));
+  } catch {
+    return null;
+  }
+}
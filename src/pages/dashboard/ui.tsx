@@ -0,0 +1,51 @@
+// src/pages/dashboard/ui.tsx
+import React from "react";
+
+/* ------------ Format helpers ------------ */
+const fmt = new Intl.NumberFormat("en-CA", {
+  style: "currency",
+  currency: "CAD",
+  maximumFractionDigits: 0,
+});
+export const money = (n: number) => fmt.format(Number.isFinite(n) ? n : 0);
+export const pct = (n: number) => `${(((Number.isFinite(n) ? n : 0)) * 100).toFixed(1)}%`;
+
+export const selectClass =
+  "w-full rounded-2xl border border-slate-200 bg-white px-4 py-3 shadow-sm outline-none focus:ring-2 focus:ring-indigo-500/30";
+
+/* ------------ Small UI atoms ------------ */
+export function Label({ children }: { children: React.ReactNode }) {
+  return <label className="text-sm font-medium text-slate-600">{children}</label>;
+}
+export function NumberInput({
+  value,
+  onChange,
+  prefix = "$",
+  step = 1000,
+  min = 0,
+}: {
+  value: number;
+  onChange: (n: number) => void;
+  prefix?: string;
+  step?: number;
+  min?: number;
+}) {
+  return (
+    <div className="relative">
+      {prefix && (
+        <span className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400">
+          {prefix}
+        </span>
+      )}
+      <input
+        type="number"
+        inputMode="decimal"
+        className="w-full rounded-2xl border border-slate-200 bg-white px-4 py-3 pl-9 shadow-sm outline-none focus:ring-2 focus:ring-indigo-500/30"
+        value={isFinite(value) ? value : 0}
+        step={step}
+        min={min}
+        onChange={(e) => onChange(Number(e.target.value))}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+// src/widget/main.tsx
+import React from "react";
+import { createRoot, type Root } from "react-dom/client";
+import type { CalculationResults } from "@/embed/protocol";
+import Dashboard from "@/pages/Dashboard";
+import { readCalcInput, type SharedInputs } from "@/pages/dashboard/shareLink";
+import css from "../index.css?inline";
+
+/**
+ * <incorp-calc> — the Dashboard as a custom element, for partner pages without an iframe
+ * - `npm run build:widget` (vite.widget.config.ts) bundles it into one script,
+ *   dist/widget/incorp-calc.js, with React and the styles inside:
+ *     <script src="https://…/widget/incorp-calc.js"></script>
+ *     <incorp-calc province="BC" income="150000" cash-needed="90000"></incorp-calc>
+ * - Styles live in the element's shadow root, so neither page's CSS reaches the other.
+ *   Tailwind's @property registrations only work at document level, so those few rules
+ *   are added to the page's <head> once.
+ * - Attributes are inputs (province, income, cash-needed, tax-year, other-expenses).
+ *   Setting or changing one reloads the calculator with it and runs the calculation;
+ *   invalid values are ignored like a hand-edited share link.
+ * - The page's URL and storage are the host's: the widget ignores the address bar's share
+ *   link and leaves out "Copy link" and the saved-scenario library.
+ * - Events, bubbling out of the shadow root:
+ *   * incorp-calc:results  detail = { input, results, recommended } after every calculation
+ */
+
+export const WIDGET_TAG = "incorp-calc";
+export const RESULTS_EVENT = "incorp-calc:results";
+
+/** Attribute → calculator input */
+const ATTRIBUTES = {
+  province: "province",
+  income: "businessIncome",
+  "cash-needed": "personalCashNeeded",
+  "tax-year": "taxYear",
+  "other-expenses": "otherExpenses",
+} as const;
+
+let propertiesRegistered = false;
+
+function registerProperties() {
+  if (propertiesRegistered) return;
+  propertiesRegistered = true;
+  const rules = css.match(/@property[^{]+\{[^}]*\}/g);
+  if (!rules) return;
+  const style = document.createElement("style");
+  style.dataset.incorpCalc = "properties";
+  style.textContent = rules.join("\n");
+  document.head.append(style);
+}
+
+class IncorpCalcElement extends HTMLElement {
+  static observedAttributes = Object.keys(ATTRIBUTES);
+
+  private root: Root | null = null;
+  private renders = 0;
+
+  connectedCallback() {
+    registerProperties();
+    const shadow = this.shadowRoot ?? this.attachShadow({ mode: "open" });
+    const style = document.createElement("style");
+    style.textContent = css;
+    const container = document.createElement("div");
+    shadow.replaceChildren(style, container);
+
+    this.root = createRoot(container);
+    this.renderDashboard();
+  }
+
+  disconnectedCallback() {
+    this.root?.unmount();
+    this.root = null;
+  }
+
+  attributeChangedCallback() {
+    if (this.root) this.renderDashboard();
+  }
+
+  /** Inputs from the attributes (numbers parsed, then checked like any untrusted input) */
+  private inputs(): SharedInputs {
+    const raw = Object.fromEntries(
+      Object.entries(ATTRIBUTES).flatMap(([attribute, field]) => {
+        const value = this.getAttribute(attribute)?.trim();
+        if (!value) return [];
+        return [[field, field === "province" ? value.toUpperCase() : Number(value)]];
+      })
+    );
+    return { input: readCalcInput(raw) };
+  }
+
+  private renderDashboard() {
+    // A new key remounts the Dashboard, seeded with the current attributes
+    this.renders += 1;
+    const onResults = (detail: CalculationResults) =>
+      this.dispatchEvent(new CustomEvent(RESULTS_EVENT, { detail, bubbles: true, composed: true }));
+
+    this.root?.render(
+      <React.StrictMode>
+        <Dashboard key={this.renders} inputs={this.inputs()} onResults={onResults} />
+      </React.StrictMode>
+    );
+  }
+}
+
+if (!customElements.get(WIDGET_TAG)) customElements.define(WIDGET_TAG, IncorpCalcElement);
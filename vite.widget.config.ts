@@ -0,0 +1,25 @@
+import { defineConfig } from "vite";
+import react from "@vitejs/plugin-react";
+import { fileURLToPath, URL } from "node:url";
+
+// Widget build: the <incorp-calc> custom element as one self-contained script (src/widget)
+export default defineConfig({
+  plugins: [react()],
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL("./src", import.meta.url)),
+    },
+  },
+  // Library mode leaves process.env alone; React needs it replaced to run in a page
+  define: { "process.env.NODE_ENV": JSON.stringify("production") },
+  publicDir: false,
+  build: {
+    outDir: "dist/widget",
+    lib: {
+      entry: fileURLToPath(new URL("./src/widget/main.tsx", import.meta.url)),
+      name: "IncorpCalc",
+      formats: ["iife"],
+      fileName: () => "incorp-calc.js",
+    },
+  },
+});